@@ -87,8 +87,7 @@ class RxNavExample {
 
   formatResult(result, title) {
     console.log(`\n=== ${title} ===`);
-    const content = JSON.parse(result.content[0].text);
-    console.log(JSON.stringify(content, null, 2));
+    console.log(result.content[0].text);
     console.log('─'.repeat(50));
   }
 }
@@ -0,0 +1,228 @@
+// WHO ATC (Anatomical Therapeutic Chemical) classification helpers and a
+// bundled index of class names so ATC lineages can be named offline.
+
+export interface ATCCode {
+  code: string;
+  name: string;
+  level: number;
+  lineage?: ATCCode[];
+  path?: string;
+  children?: ATCCode[];
+  members?: ATCMember[];
+}
+
+// RxNorm concept classified under an ATC class
+export interface ATCMember {
+  rxcui: string;
+  name: string;
+  termType: string;
+}
+
+// Code length at each ATC level: A, A10, A10B, A10BA, A10BA02
+const LEVEL_LENGTHS = [1, 3, 4, 5, 7];
+
+/**
+ * Class names from the WHO ATC index. All anatomical main groups are
+ * included; deeper levels cover commonly prescribed drug classes, and
+ * anything missing is looked up in RxClass when the network is available.
+ */
+export const ATC_INDEX: Record<string, string> = {
+  // Level 1: anatomical main groups
+  A: "ALIMENTARY TRACT AND METABOLISM",
+  B: "BLOOD AND BLOOD FORMING ORGANS",
+  C: "CARDIOVASCULAR SYSTEM",
+  D: "DERMATOLOGICALS",
+  G: "GENITO URINARY SYSTEM AND SEX HORMONES",
+  H: "SYSTEMIC HORMONAL PREPARATIONS, EXCL. SEX HORMONES AND INSULINS",
+  J: "ANTIINFECTIVES FOR SYSTEMIC USE",
+  L: "ANTINEOPLASTIC AND IMMUNOMODULATING AGENTS",
+  M: "MUSCULO-SKELETAL SYSTEM",
+  N: "NERVOUS SYSTEM",
+  P: "ANTIPARASITIC PRODUCTS, INSECTICIDES AND REPELLENTS",
+  R: "RESPIRATORY SYSTEM",
+  S: "SENSORY ORGANS",
+  V: "VARIOUS",
+
+  // Alimentary tract and metabolism
+  A02: "DRUGS FOR ACID RELATED DISORDERS",
+  A02B: "DRUGS FOR PEPTIC ULCER AND GASTRO-OESOPHAGEAL REFLUX DISEASE (GORD)",
+  A02BC: "Proton pump inhibitors",
+  A02BC01: "omeprazole",
+  A02BC02: "pantoprazole",
+  A10: "DRUGS USED IN DIABETES",
+  A10A: "INSULINS AND ANALOGUES",
+  A10B: "BLOOD GLUCOSE LOWERING DRUGS, EXCL. INSULINS",
+  A10BA: "Biguanides",
+  A10BA02: "metformin",
+  A10BB: "Sulfonylureas",
+  A10BB12: "glimepiride",
+  A10BH: "Dipeptidyl peptidase 4 (DPP-4) inhibitors",
+  A10BH01: "sitagliptin",
+  A10BK: "Sodium-glucose co-transporter 2 (SGLT2) inhibitors",
+  A10BK01: "dapagliflozin",
+  A10BK03: "empagliflozin",
+
+  // Blood and blood forming organs
+  B01: "ANTITHROMBOTIC AGENTS",
+  B01A: "ANTITHROMBOTIC AGENTS",
+  B01AA: "Vitamin K antagonists",
+  B01AA03: "warfarin",
+  B01AB: "Heparin group",
+  B01AC: "Platelet aggregation inhibitors excl. heparin",
+  B01AC04: "clopidogrel",
+  B01AC06: "acetylsalicylic acid",
+  B01AF: "Direct factor Xa inhibitors",
+  B01AF01: "rivaroxaban",
+  B01AF02: "apixaban",
+
+  // Cardiovascular system
+  C03: "DIURETICS",
+  C03A: "LOW-CEILING DIURETICS, THIAZIDES",
+  C03AA: "Thiazides, plain",
+  C03AA03: "hydrochlorothiazide",
+  C03C: "HIGH-CEILING DIURETICS",
+  C03CA: "Sulfonamides, plain",
+  C03CA01: "furosemide",
+  C07: "BETA BLOCKING AGENTS",
+  C07A: "BETA BLOCKING AGENTS",
+  C07AB: "Beta blocking agents, selective",
+  C07AB02: "metoprolol",
+  C07AB03: "atenolol",
+  C08: "CALCIUM CHANNEL BLOCKERS",
+  C08C: "SELECTIVE CALCIUM CHANNEL BLOCKERS WITH MAINLY VASCULAR EFFECTS",
+  C08CA: "Dihydropyridine derivatives",
+  C08CA01: "amlodipine",
+  C09: "AGENTS ACTING ON THE RENIN-ANGIOTENSIN SYSTEM",
+  C09A: "ACE INHIBITORS, PLAIN",
+  C09AA: "ACE inhibitors, plain",
+  C09AA01: "captopril",
+  C09AA02: "enalapril",
+  C09AA03: "lisinopril",
+  C09AA05: "ramipril",
+  C09C: "ANGIOTENSIN II RECEPTOR BLOCKERS (ARBs), PLAIN",
+  C09CA: "Angiotensin II receptor blockers (ARBs), plain",
+  C09CA01: "losartan",
+  C09CA03: "valsartan",
+  C10: "LIPID MODIFYING AGENTS",
+  C10A: "LIPID MODIFYING AGENTS, PLAIN",
+  C10AA: "HMG CoA reductase inhibitors",
+  C10AA01: "simvastatin",
+  C10AA05: "atorvastatin",
+  C10AA07: "rosuvastatin",
+
+  // Systemic hormonal preparations
+  H02: "CORTICOSTEROIDS FOR SYSTEMIC USE",
+  H02A: "CORTICOSTEROIDS FOR SYSTEMIC USE, PLAIN",
+  H02AB: "Glucocorticoids",
+  H02AB06: "prednisolone",
+  H02AB07: "prednisone",
+  H03: "THYROID THERAPY",
+  H03A: "THYROID PREPARATIONS",
+  H03AA: "Thyroid hormones",
+  H03AA01: "levothyroxine sodium",
+
+  // Antiinfectives for systemic use
+  J01: "ANTIBACTERIALS FOR SYSTEMIC USE",
+  J01C: "BETA-LACTAM ANTIBACTERIALS, PENICILLINS",
+  J01CA: "Penicillins with extended spectrum",
+  J01CA04: "amoxicillin",
+  J01F: "MACROLIDES, LINCOSAMIDES AND STREPTOGRAMINS",
+  J01FA: "Macrolides",
+  J01FA10: "azithromycin",
+
+  // Musculo-skeletal system
+  M01: "ANTIINFLAMMATORY AND ANTIRHEUMATIC PRODUCTS",
+  M01A: "ANTIINFLAMMATORY AND ANTIRHEUMATIC PRODUCTS, NON-STEROIDS",
+  M01AB: "Acetic acid derivatives and related substances",
+  M01AB05: "diclofenac",
+  M01AE: "Propionic acid derivatives",
+  M01AE01: "ibuprofen",
+  M01AE02: "naproxen",
+
+  // Nervous system
+  N02: "ANALGESICS",
+  N02A: "OPIOIDS",
+  N02AA: "Natural opium alkaloids",
+  N02AA01: "morphine",
+  N02AA05: "oxycodone",
+  N02B: "OTHER ANALGESICS AND ANTIPYRETICS",
+  N02BA: "Salicylic acid and derivatives",
+  N02BA01: "acetylsalicylic acid",
+  N02BE: "Anilides",
+  N02BE01: "paracetamol",
+  N06: "PSYCHOANALEPTICS",
+  N06A: "ANTIDEPRESSANTS",
+  N06AB: "Selective serotonin reuptake inhibitors",
+  N06AB03: "fluoxetine",
+  N06AB04: "citalopram",
+  N06AB06: "sertraline",
+
+  // Respiratory system
+  R03: "DRUGS FOR OBSTRUCTIVE AIRWAY DISEASES",
+  R03A: "ADRENERGICS, INHALANTS",
+  R03AC: "Selective beta-2-adrenoreceptor agonists",
+  R03AC02: "salbutamol",
+};
+
+export function getATCLevel(atcCode: string): number {
+  if (!atcCode) return 0;
+
+  // 0 when the length matches no ATC level
+  return LEVEL_LENGTHS.indexOf(atcCode.length) + 1;
+}
+
+/**
+ * Codes of every level from the anatomical main group down to `atcCode`,
+ * e.g. B01AC06 -> [B, B01, B01A, B01AC, B01AC06].
+ */
+export function getATCLineageCodes(atcCode: string): string[] {
+  const level = getATCLevel(atcCode);
+  return LEVEL_LENGTHS.slice(0, level).map(length => atcCode.slice(0, length));
+}
+
+/**
+ * Direct children of `atcCode` that appear in the bundled index.
+ */
+export function getIndexedATCChildren(atcCode: string): ATCCode[] {
+  const childLevel = getATCLevel(atcCode) + 1;
+  if (childLevel > LEVEL_LENGTHS.length) return [];
+
+  return Object.keys(ATC_INDEX)
+    .filter(code => code.startsWith(atcCode) && getATCLevel(code) === childLevel)
+    .sort()
+    .map(code => ({ code, name: ATC_INDEX[code], level: childLevel }));
+}
+
+/**
+ * Human readable lineage from the most specific level upwards, e.g.
+ * "B01AC06 acetylsalicylic acid → B01AC Platelet aggregation inhibitors excl. heparin → ...".
+ */
+export function formatATCPath(lineage: ATCCode[]): string {
+  return [...lineage]
+    .reverse()
+    .map(entry => `${entry.code} ${entry.name}`)
+    .join(' → ');
+}
+
+/**
+ * Merges the lineages of several ATC codes into one nested tree rooted at
+ * the anatomical main groups.
+ */
+export function buildATCTree(codes: ATCCode[]): ATCCode[] {
+  const roots: ATCCode[] = [];
+
+  for (const atcCode of codes) {
+    let siblings = roots;
+
+    for (const entry of atcCode.lineage || [atcCode]) {
+      let node = siblings.find(n => n.code === entry.code);
+      if (!node) {
+        node = { code: entry.code, name: entry.name, level: entry.level, children: [] };
+        siblings.push(node);
+      }
+      siblings = node.children!;
+    }
+  }
+
+  return roots;
+}
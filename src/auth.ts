@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+
+// API-key authentication, per-key rate limits and daily quotas for the HTTP
+// server. Keys are read from a JSON file named by HTTP_AUTH_CONFIG; without
+// one the server stays open as before.
+
+const ApiKeyConfigSchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16),
+  // Requests allowed per window; omitted means unlimited
+  rate_limit: z.object({
+    requests: z.number().int().min(1),
+    window_seconds: z.number().int().min(1).default(60),
+  }).optional(),
+  // Requests allowed per UTC day; omitted means unlimited
+  daily_quota: z.number().int().min(1).optional(),
+});
+
+export const AuthConfigSchema = z.object({
+  allowed_origins: z.array(z.string()).default([]),
+  // Paths reachable without a key
+  public_paths: z.array(z.string()).default(['/health', '/openapi.json']),
+  keys: z.array(ApiKeyConfigSchema).min(1),
+});
+
+export type ApiKeyConfig = z.infer<typeof ApiKeyConfigSchema>;
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+interface KeyUsage {
+  windowStart: number;
+  windowCount: number;
+  day: string;
+  dayCount: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class ApiKeyAuth {
+  private usage = new Map<string, KeyUsage>();
+
+  constructor(private config: AuthConfig) {}
+
+  /**
+   * Loads the config named by HTTP_AUTH_CONFIG, or returns undefined when
+   * the variable is unset. A missing or invalid file is a startup error.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ApiKeyAuth | undefined {
+    const path = env.HTTP_AUTH_CONFIG;
+    if (!path) return undefined;
+
+    const raw = JSON.parse(readFileSync(path, 'utf8'));
+    return new ApiKeyAuth(AuthConfigSchema.parse(raw));
+  }
+
+  get allowedOrigins(): string[] {
+    return this.config.allowed_origins;
+  }
+
+  get publicPaths(): string[] {
+    return this.config.public_paths;
+  }
+
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (req.method === 'OPTIONS' || this.config.public_paths.includes(req.path)) {
+        next();
+        return;
+      }
+
+      const key = this.findKey(this.readKey(req));
+      if (!key) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).json({ error: 'Missing or invalid API key' });
+        return;
+      }
+
+      const retryAfter = this.consume(key, Date.now(), res);
+      if (retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(retryAfter));
+        res.status(429).json({ error: `Rate limit exceeded for API key "${key.name}"` });
+        return;
+      }
+
+      res.locals.apiKey = key.name;
+      next();
+    };
+  }
+
+  // Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`
+  private readKey(req: Request): string | undefined {
+    const authorization = req.header('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+    return req.header('x-api-key');
+  }
+
+  private findKey(presented: string | undefined): ApiKeyConfig | undefined {
+    if (!presented) return undefined;
+
+    const candidate = Buffer.from(presented);
+    return this.config.keys.find(entry => {
+      const expected = Buffer.from(entry.key);
+      return expected.length === candidate.length && timingSafeEqual(expected, candidate);
+    });
+  }
+
+  /**
+   * Counts one request against the key's limits and sets the RateLimit
+   * headers. Returns the seconds to wait when a limit is already used up.
+   */
+  private consume(key: ApiKeyConfig, now: number, res: Response): number | undefined {
+    const today = new Date(now).toISOString().slice(0, 10);
+    let usage = this.usage.get(key.name);
+    if (!usage) {
+      usage = { windowStart: now, windowCount: 0, day: today, dayCount: 0 };
+      this.usage.set(key.name, usage);
+    }
+
+    if (usage.day !== today) {
+      usage.day = today;
+      usage.dayCount = 0;
+    }
+
+    if (key.daily_quota && usage.dayCount >= key.daily_quota) {
+      const midnight = Date.parse(`${today}T00:00:00Z`) + DAY;
+      return Math.ceil((midnight - now) / 1000);
+    }
+
+    if (key.rate_limit) {
+      const windowMs = key.rate_limit.window_seconds * 1000;
+      if (now - usage.windowStart >= windowMs) {
+        usage.windowStart = now;
+        usage.windowCount = 0;
+      }
+
+      const resetSeconds = Math.ceil((usage.windowStart + windowMs - now) / 1000);
+      if (usage.windowCount >= key.rate_limit.requests) {
+        return resetSeconds;
+      }
+
+      usage.windowCount++;
+      res.setHeader('RateLimit-Limit', String(key.rate_limit.requests));
+      res.setHeader('RateLimit-Remaining', String(key.rate_limit.requests - usage.windowCount));
+      res.setHeader('RateLimit-Reset', String(resetSeconds));
+    }
+
+    usage.dayCount++;
+    return undefined;
+  }
+}
@@ -0,0 +1,180 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+
+// TTL rule applied to every endpoint whose path matches `pattern`
+export interface CacheTTLRule {
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  defaultTtlMs: number;
+  staleWhileRevalidateMs: number;
+  ttlRules: CacheTTLRule[];
+  diskDir?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  stale_hits: number;
+}
+
+export type CacheLookupState = 'fresh' | 'stale';
+
+interface CacheEntry {
+  key: string;
+  value: any;
+  storedAt: number;
+  expiresAt: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// RxNorm is released monthly with weekly updates, so concept-level data can be
+// kept for days; name searches are kept shorter because they span many concepts.
+export const DEFAULT_TTL_RULES: CacheTTLRule[] = [
+  { pattern: /^\/drugs\.json/, ttlMs: DAY },
+  { pattern: /^\/rxcui\/\d+\/property\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxcui\/\d+\/allProperties\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxcui\/\d+\/related\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxcui\/\d+\/allrelated\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxcui\/\d+\/properties\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxcui\/\d+\/historystatus\.json/, ttlMs: 7 * DAY },
+  { pattern: /^\/rxclass\//, ttlMs: 7 * DAY },
+];
+
+export function createCacheStats(): CacheStats {
+  return { hits: 0, misses: 0, stale_hits: 0 };
+}
+
+/**
+ * In-memory LRU of RxNav responses keyed by endpoint, optionally backed by a
+ * directory of JSON files so entries survive restarts.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private options: ResponseCacheOptions;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ResponseCache {
+    const hours = (name: string, fallback: number) =>
+      env[name] ? parseFloat(env[name] as string) * HOUR : fallback;
+
+    return new ResponseCache({
+      maxEntries: env.RXNAV_CACHE_MAX_ENTRIES ? parseInt(env.RXNAV_CACHE_MAX_ENTRIES, 10) : 2000,
+      defaultTtlMs: hours('RXNAV_CACHE_TTL_HOURS', DAY),
+      staleWhileRevalidateMs: hours('RXNAV_CACHE_SWR_HOURS', 30 * DAY),
+      ttlRules: DEFAULT_TTL_RULES,
+      diskDir: env.RXNAV_CACHE_DIR || undefined,
+    });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  ttlFor(key: string): number {
+    const rule = this.options.ttlRules.find(r => r.pattern.test(key));
+    return rule ? rule.ttlMs : this.options.defaultTtlMs;
+  }
+
+  /**
+   * Returns the cached value and whether it is still fresh. Entries past
+   * their TTL but inside the stale-while-revalidate window are returned as
+   * 'stale'; anything older is treated as a miss.
+   */
+  async lookup(key: string): Promise<{ value: any; state: CacheLookupState } | undefined> {
+    let entry = this.entries.get(key);
+
+    if (!entry && this.options.diskDir) {
+      entry = await this.readFromDisk(key);
+      if (entry) this.remember(entry);
+    }
+
+    if (!entry) return undefined;
+
+    const now = Date.now();
+    if (now <= entry.expiresAt) {
+      this.touch(entry);
+      return { value: entry.value, state: 'fresh' };
+    }
+
+    if (now <= entry.expiresAt + this.options.staleWhileRevalidateMs) {
+      this.touch(entry);
+      return { value: entry.value, state: 'stale' };
+    }
+
+    this.entries.delete(key);
+    return undefined;
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    const storedAt = Date.now();
+    const entry: CacheEntry = {
+      key,
+      value,
+      storedAt,
+      expiresAt: storedAt + this.ttlFor(key),
+    };
+
+    this.remember(entry);
+
+    if (this.options.diskDir) {
+      await this.writeToDisk(entry);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private remember(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private touch(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+  }
+
+  private diskPath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return join(this.options.diskDir as string, `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const raw = await fs.readFile(this.diskPath(key), 'utf8');
+      const entry = JSON.parse(raw) as CacheEntry;
+      // Guard against hash collisions and hand-edited files
+      return entry.key === key ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    const dir = this.options.diskDir as string;
+    const path = this.diskPath(entry.key);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(tmpPath, path);
+  }
+}
@@ -2,233 +2,125 @@
 
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { z } from 'zod';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-
-// Reuse schemas from index.ts
-const DrugLabelSearchParamsSchema = z.object({
-  search: z.string().optional(),
-  count: z.string().optional(),
-  skip: z.coerce.number().int().min(0).optional().default(0),
-  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
-});
-
-const DrugQueryParamsSchema = z.object({
-  drug_name: z.string(),
-  limit: z.coerce.number().int().min(1).max(5).optional().default(3),
-});
-
-type DrugLabelSearchParams = z.infer<typeof DrugLabelSearchParamsSchema>;
-
-interface OpenFDAResponse {
-  meta: {
-    disclaimer: string;
-    terms: string;
-    license: string;
-    last_updated: string;
-    results: {
-      skip: number;
-      limit: number;
-      total: number;
-    };
-  };
-  results: any[];
-}
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  OpenFDAClient,
+  OpenFDAError,
+  OpenFDAResponse,
+  DrugLabelSearchParams,
+  DrugLabelSearchParamsSchema,
+  buildNameSearch
+} from './openfda.js';
+import { LabelQueryParamsSchema } from './schemas.js';
+import { HTTP_ROUTES, HttpRoute, buildOpenApiDocument, readRouteArgs } from './registry.js';
+import { RxNavServer } from './index.js';
+import { McpHttpSessions } from './mcp-http.js';
+import { ApiKeyAuth } from './auth.js';
+import { upstreamScheduler } from './scheduler.js';
 
 class OpenFDAHTTPServer {
   private app: express.Application;
-  private baseUrl = "https://api.fda.gov/drug/label.json";
+  private openFDA = new OpenFDAClient();
+  private rxnav = new RxNavServer();
+  private auth = ApiKeyAuth.fromEnv();
+  private mcpSessions: McpHttpSessions;
 
   constructor() {
     this.app = express();
+
+    // MCP_ALLOWED_ORIGINS takes precedence; otherwise MCP follows the CORS list
+    const mcpOptions = McpHttpSessions.optionsFromEnv();
+    if (mcpOptions.allowedOrigins.length === 0 && this.auth) {
+      mcpOptions.allowedOrigins = this.auth.allowedOrigins;
+    }
+    this.mcpSessions = new McpHttpSessions(this.rxnav, mcpOptions);
+
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupRxNavRoutes();
+    this.mcpSessions.mount(this.app);
   }
 
   private setupMiddleware() {
-    this.app.use(cors());
+    const origins = this.auth?.allowedOrigins ?? [];
+    this.app.use(cors({
+      origin: origins.length === 0 || origins.includes('*') ? '*' : origins,
+      // Browser MCP clients need to read the session id from the initialize response
+      exposedHeaders: ['Mcp-Session-Id', 'Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'],
+    }));
+
+    if (this.auth) {
+      this.app.use(this.auth.middleware());
+    }
+
+    // Upstream requests queue fairly per API key, else per MCP session, else per client address
+    this.app.use((req: Request, res: Response, next) => {
+      const sessionId = req.header('mcp-session-id') ?? (typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined);
+      upstreamScheduler.runAs(res.locals.apiKey ?? sessionId ?? req.ip ?? 'anonymous', next);
+    });
     this.app.use(express.json());
   }
 
   private async makeRequest(params: DrugLabelSearchParams): Promise<OpenFDAResponse> {
-    const url = new URL(this.baseUrl);
-    
-    if (params.search) {
-      url.searchParams.set("search", params.search);
-    }
-    if (params.count) {
-      url.searchParams.set("count", params.count);
-    }
-    if (params.skip) {
-      url.searchParams.set("skip", params.skip.toString());
-    }
-    if (params.limit) {
-      url.searchParams.set("limit", params.limit.toString());
+    return this.openFDA.makeRequest(params);
+  }
+
+  /**
+   * Maps a failure to an HTTP status: invalid input is 400, nothing found
+   * is 404, and errors from RxNav or OpenFDA are 502.
+   */
+  private sendError(res: Response, error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    let status = 500;
+
+    if (error && typeof error === 'object' && 'issues' in error) {
+      status = 400;
+    } else if (error instanceof McpError) {
+      status = error.code === ErrorCode.InvalidParams ? 400
+        : error.code === ErrorCode.MethodNotFound ? 404
+        : 502;
+    } else if (error instanceof OpenFDAError) {
+      status = error.status === 404 ? 404 : 502;
+    } else if (error instanceof TypeError && message === 'fetch failed') {
+      status = 502;
     }
 
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenFDA API error (${response.status}): ${errorText}`);
+    res.status(status).json({ error: message });
+  }
+
+  private toolArgs(route: HttpRoute, req: Request): any {
+    if (route.method === 'post') {
+      return req.body || {};
     }
 
-    return await response.json();
+    return readRouteArgs(route, req.params, req.query);
+  }
+
+  private setupRxNavRoutes() {
+    for (const route of HTTP_ROUTES) {
+      const tool = route.tool;
+      if (!tool) continue;
+
+      this.app[route.method](route.path, async (req: Request, res: Response) => {
+        try {
+          const payload = await this.rxnav.callTool(tool, this.toolArgs(route, req));
+          const isNotFound = route.isNotFound || ((p: any) => typeof p?.message === 'string' && !p.rxcui);
+
+          res.status(isNotFound(payload) ? 404 : 200).json(payload);
+        } catch (error) {
+          console.error(`Error in ${route.path}:`, error);
+          this.sendError(res, error);
+        }
+      });
+    }
   }
 
   private setupRoutes() {
     // OpenAPI specification endpoint
     this.app.get('/openapi.json', (req: Request, res: Response) => {
-      const openApiSpec = {
-        openapi: "3.0.3",
-        info: {
-          title: "OpenFDA Drug Labels API",
-          description: "FDA药品标签信息查询API，基于OpenFDA数据源",
-          version: "0.1.0"
-        },
-        servers: [
-          { url: "http://localhost:3000", description: "本地开发服务器" }
-        ],
-        paths: {
-          "/drug-labels": {
-            get: {
-              summary: "搜索FDA药品标签",
-              description: "根据搜索条件查询药品标签信息",
-              parameters: [
-                {
-                  name: "search",
-                  in: "query",
-                  description: "搜索查询，如药品名称、活性成分等",
-                  schema: { type: "string" },
-                  example: "aspirin"
-                },
-                {
-                  name: "count",
-                  in: "query", 
-                  description: "按字段统计结果",
-                  schema: { type: "string" },
-                  example: "openfda.manufacturer_name.exact"
-                },
-                {
-                  name: "skip",
-                  in: "query",
-                  description: "跳过的记录数（分页）",
-                  schema: { type: "integer", minimum: 0, default: 0 }
-                },
-                {
-                  name: "limit",
-                  in: "query",
-                  description: "返回记录数限制",
-                  schema: { type: "integer", minimum: 1, maximum: 100, default: 10 }
-                }
-              ],
-              responses: {
-                "200": {
-                  description: "成功返回药品标签数据",
-                  content: {
-                    "application/json": {
-                      schema: {
-                        type: "object",
-                        properties: {
-                          meta: { type: "object" },
-                          results_count: { type: "integer" },
-                          results: { type: "array" }
-                        }
-                      }
-                    }
-                  }
-                },
-                "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
-              }
-            }
-          },
-          "/drug/{name}/adverse-reactions": {
-            get: {
-              summary: "获取药物不良反应",
-              description: "查询指定药物的不良反应和禁忌症信息",
-              parameters: [
-                {
-                  name: "name",
-                  in: "path",
-                  required: true,
-                  description: "药物名称",
-                  schema: { type: "string" },
-                  example: "ibuprofen"
-                },
-                {
-                  name: "limit",
-                  in: "query",
-                  description: "返回记录数限制",
-                  schema: { type: "integer", minimum: 1, maximum: 10, default: 3 }
-                }
-              ],
-              responses: {
-                "200": { description: "成功返回不良反应数据" },
-                "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
-              }
-            }
-          },
-          "/drug/{name}/warnings": {
-            get: {
-              summary: "获取药物警告信息",
-              description: "查询指定药物的警告、注意事项和黑框警告",
-              parameters: [
-                {
-                  name: "name",
-                  in: "path",
-                  required: true,
-                  description: "药物名称",
-                  schema: { type: "string" },
-                  example: "tylenol"
-                },
-                {
-                  name: "limit",
-                  in: "query",
-                  description: "返回记录数限制",
-                  schema: { type: "integer", minimum: 1, maximum: 10, default: 3 }
-                }
-              ],
-              responses: {
-                "200": { description: "成功返回警告信息数据" },
-                "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
-              }
-            }
-          },
-          "/drug/{name}/indications": {
-            get: {
-              summary: "获取药物适应症",
-              description: "查询指定药物的适应症和用法信息",
-              parameters: [
-                {
-                  name: "name",
-                  in: "path",
-                  required: true,
-                  description: "药物名称",
-                  schema: { type: "string" },
-                  example: "aspirin"
-                },
-                {
-                  name: "limit",
-                  in: "query",
-                  description: "返回记录数限制",
-                  schema: { type: "integer", minimum: 1, maximum: 10, default: 3 }
-                }
-              ],
-              responses: {
-                "200": { description: "成功返回适应症数据" },
-                "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
-              }
-            }
-          }
-        }
-      };
-      
-      res.json(openApiSpec);
+      res.json(buildOpenApiDocument(undefined, this.auth?.publicPaths));
     });
 
     // Drug labels search endpoint
@@ -244,25 +136,20 @@ class OpenFDAHTTPServer {
         });
       } catch (error) {
         console.error('Error in /drug-labels:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
     // Drug adverse reactions endpoint
     this.app.get('/drug/:name/adverse-reactions', async (req: Request, res: Response) => {
       try {
-        const { name } = req.params;
-        const { limit = 3 } = req.query;
-        
-        const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
+        const { name, limit } = LabelQueryParamsSchema.parse({ ...req.query, name: req.params.name });
         
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const searchQuery = buildNameSearch(name);
         
         const data = await this.makeRequest({
           search: searchQuery,
-          limit: parsedLimit,
+          limit,
           skip: 0
         });
 
@@ -280,25 +167,20 @@ class OpenFDAHTTPServer {
         });
       } catch (error) {
         console.error('Error in /drug/:name/adverse-reactions:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
     // Drug warnings endpoint
     this.app.get('/drug/:name/warnings', async (req: Request, res: Response) => {
       try {
-        const { name } = req.params;
-        const { limit = 3 } = req.query;
-        
-        const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
+        const { name, limit } = LabelQueryParamsSchema.parse({ ...req.query, name: req.params.name });
         
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const searchQuery = buildNameSearch(name);
         
         const data = await this.makeRequest({
           search: searchQuery,
-          limit: parsedLimit,
+          limit,
           skip: 0
         });
 
@@ -317,25 +199,20 @@ class OpenFDAHTTPServer {
         });
       } catch (error) {
         console.error('Error in /drug/:name/warnings:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
     // Drug indications endpoint
     this.app.get('/drug/:name/indications', async (req: Request, res: Response) => {
       try {
-        const { name } = req.params;
-        const { limit = 3 } = req.query;
+        const { name, limit } = LabelQueryParamsSchema.parse({ ...req.query, name: req.params.name });
         
-        const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
-        
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const searchQuery = buildNameSearch(name);
         
         const data = await this.makeRequest({
           search: searchQuery,
-          limit: parsedLimit,
+          limit,
           skip: 0
         });
 
@@ -353,9 +230,7 @@ class OpenFDAHTTPServer {
         });
       } catch (error) {
         console.error('Error in /drug/:name/indications:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
@@ -366,10 +241,27 @@ class OpenFDAHTTPServer {
   }
 
   public start(port: number = 3000) {
-    this.app.listen(port, () => {
+    const httpServer = this.app.listen(port, () => {
       console.log(`OpenFDA HTTP Server running on http://localhost:${port}`);
       console.log(`OpenAPI specification available at: http://localhost:${port}/openapi.json`);
+      console.log(`MCP endpoint available at: http://localhost:${port}/mcp (SSE: /sse)`);
+      if (!this.auth) {
+        console.log('HTTP_AUTH_CONFIG not set: API key authentication is disabled');
+      }
     });
+
+    const shutdown = async () => {
+      console.log('Shutting down HTTP server...');
+      // Open SSE streams would keep the server from closing, so don't wait forever
+      setTimeout(() => process.exit(1), 10000).unref();
+      httpServer.close();
+      await this.mcpSessions.closeAll();
+      httpServer.closeAllConnections();
+      process.exit(0);
+    };
+
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
   }
 }
 
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+
+import { RxNormStore } from "./rrf-store.js";
+
+// Imports an RxNorm full release (RXNCONSO.RRF, RXNREL.RRF, RXNSAT.RRF) into a
+// JSON snapshot that the local backend can load without re-parsing the RRF files.
+async function main() {
+  const [rrfDir, outputPath = 'rxnorm-store.json'] = process.argv.slice(2);
+
+  if (!rrfDir) {
+    console.error("Usage: import-rrf <rrf-directory> [output.json]");
+    process.exit(1);
+  }
+
+  const startTime = Date.now();
+  const store = await RxNormStore.fromRRF(rrfDir);
+  await store.save(outputPath);
+
+  console.error(`Imported ${store.size} RxNorm concepts from ${rrfDir} into ${outputPath} in ${Date.now() - startTime}ms`);
+}
+
+main().catch(error => {
+  console.error("RRF import failed:", error);
+  process.exit(1);
+});
@@ -5,44 +5,129 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
+import { AsyncLocalStorage } from "async_hooks";
+import { realpathSync } from "fs";
+import { fileURLToPath } from "url";
 import {
-  chunkText,
+  chunkRecords,
   rankAndPickTop,
+  mergeOverlappingChunks,
   summarizeChunks,
   extractCitations,
   TextChunk,
-  RAGResult
+  TextRecord,
+  RAGResult,
+  RAGSourceTiming
 } from "./rag-utils.js";
+import { message } from "./rag-messages.js";
+import { ResponseCache, CacheStats, createCacheStats } from "./cache.js";
+import { RxNormStore } from "./rrf-store.js";
+import { upstreamScheduler, mapConcurrent } from "./scheduler.js";
+import { normalizeNdc, isNdc, formatNdc11, NormalizedNdc } from "./ndc.js";
+import {
+  ATCCode,
+  ATCMember,
+  ATC_INDEX,
+  getATCLevel,
+  getATCLineageCodes,
+  getIndexedATCChildren,
+  formatATCPath,
+  buildATCTree
+} from "./atc.js";
+import {
+  OpenFDAClient,
+  LabelSection,
+  LabelSearchResult,
+  buildRxcuiSearch,
+  summarizeLabel
+} from "./openfda.js";
+import {
+  ClassSystem,
+  CodeSystem,
+  AEPipelineRAGParams,
+  DrugSearchParamsSchema,
+  DrugIdentifierParamsSchema,
+  GenericNameParamsSchema,
+  AEPipelineRAGParamsSchema,
+  ApproximateMatchParamsSchema,
+  NdcParamsSchema,
+  NormalizeNdcParamsSchema,
+  RxcuiParamsSchema,
+  RxcuiNdcParamsSchema,
+  DrugClassesParamsSchema,
+  ClassMembersParamsSchema,
+  MapIdentifierParamsSchema,
+  EquivalentProductsParamsSchema,
+  DrugLabelParamsSchema,
+  LabelSectionParamsSchema,
+  BrowseATCClassParamsSchema,
+  WarmCacheParamsSchema,
+  DrugSearchResult,
+  GenericNamesResult,
+  BrandNamesResult,
+  ATCClassificationResult,
+  IngredientsResult,
+  ApproximateMatchResult,
+  NormalizeNdcResult,
+  NdcToRxcuiResult,
+  NdcsForRxcuiResult,
+  NdcPropertiesResult,
+  DrugClassesResult,
+  ClassMembersResult,
+  BrowseATCClassResult,
+  DrugLabelsResult,
+  LabelSectionResult,
+  BoxedWarningResult,
+  EquivalentProductsResult,
+  MapIdentifierResult,
+  RxcuiStatusResult,
+  WarmCacheResult
+} from "./schemas.js";
+import { listMcpTools } from "./registry.js";
+import { renderToolResult } from "./render.js";
+import {
+  RESOURCE_NOT_FOUND,
+  RESOURCE_TEMPLATES,
+  RelatedConcepts,
+  listATCRootResources,
+  parseResourceUri,
+  renderATCCard,
+  renderConceptCard,
+  renderRelatedCard,
+  sortRelatedGroups,
+  termTypeLabel
+} from "./resources.js";
 
-// RxNav API parameter schemas
-const DrugSearchParamsSchema = z.object({
-  drug_name: z.string(),
-  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
-});
-
-const DrugIdentifierParamsSchema = z.object({
-  drug_identifier: z.string(),
-});
-
-const GenericNameParamsSchema = z.object({
-  generic_name: z.string(),
-});
-
-const AEPipelineRAGParamsSchema = z.object({
-  query: z.string().optional(),
-  drug: z.string().optional(),
-  condition: z.string().optional(),
-  filters: z.object({
-    limit: z.number().optional(),
-  }).optional(),
-  top_k: z.number().optional(),
-});
+// RxClass class systems, each a relationship source plus the relations to follow
+const CLASS_SYSTEMS: Record<ClassSystem, { relaSource: string; relas: string[]; label: string }> = {
+  atc: { relaSource: 'ATC', relas: [], label: 'ATC' },
+  mesh_pa: { relaSource: 'MESHPA', relas: ['has_pa'], label: 'MeSH pharmacologic action' },
+  fda_epc: { relaSource: 'FDASPL', relas: ['has_epc'], label: 'FDA established pharmacologic class' },
+  moa: { relaSource: 'FDASPL', relas: ['has_moa'], label: 'Mechanism of action' },
+  pe: { relaSource: 'FDASPL', relas: ['has_pe'], label: 'Physiologic effect' },
+  va: { relaSource: 'VA', relas: ['has_vaclass'], label: 'VA class' },
+  medrt: { relaSource: 'MEDRT', relas: [], label: 'MED-RT' },
+};
 
-type AEPipelineRAGParams = z.infer<typeof AEPipelineRAGParamsSchema>;
+// Source vocabularies RxNorm links its concepts to. `idType` is both the RxNav
+// identifier type for reverse lookups and the CODES property name, `sab` the
+// RxNorm source abbreviation reported with each code.
+const CODE_SYSTEMS: Record<CodeSystem, { idType: string; sab: string; label: string }> = {
+  snomedct: { idType: 'SNOMEDCT', sab: 'SNOMEDCT_US', label: 'SNOMED CT' },
+  mesh: { idType: 'MESH', sab: 'MSH', label: 'MeSH' },
+  vandf: { idType: 'VUID', sab: 'VANDF', label: 'VA National Drug File' },
+  mmsl: { idType: 'MMSL_CODE', sab: 'MMSL', label: 'Multum MediSource Lexicon' },
+  gs: { idType: 'GS', sab: 'GS', label: 'Gold Standard Drug Database' },
+  drugbank: { idType: 'DRUGBANK', sab: 'DRUGBANK', label: 'DrugBank' },
+};
 
 // RxNav API response interfaces
 interface DrugInfo {
@@ -55,27 +140,227 @@ interface DrugInfo {
   termType: string;
 }
 
-interface ATCCode {
+interface Ingredient {
+  rxcui: string;
+  name: string;
+  strength?: string;
+}
+
+type IdentifierKind = 'rxcui' | 'ndc' | 'name';
+
+interface NdcStatus {
+  normalization: NormalizedNdc;
+  ndc11: string;
+  status: string;
+  rxcui: string | null;
+  conceptName: string | null;
+  conceptStatus: string | null;
+  history: Array<{ activeRxcui: string; originalRxcui: string; startDate: string; endDate: string }>;
+}
+
+// Normalized RxNav history status; NotCurrent means the RxCUI was never active
+type RxcuiStatusCode = 'active' | 'obsolete' | 'remapped' | 'quantified' | 'never_active' | 'unknown';
+
+const RXCUI_STATUS_CODES: Record<string, RxcuiStatusCode> = {
+  ACTIVE: 'active',
+  OBSOLETE: 'obsolete',
+  REMAPPED: 'remapped',
+  QUANTIFIED: 'quantified',
+  NOTCURRENT: 'never_active',
+};
+
+interface RxcuiStatus {
+  rxcui: string;
+  status: RxcuiStatusCode;
+  rxnav_status: string;
+  is_current: boolean;
+  name: string | null;
+  termType: string | null;
+  source: string | null;
+  release_start_date: string | null;
+  release_end_date: string | null;
+  active_start_date: string | null;
+  active_end_date: string | null;
+  remapped_date: string | null;
+  // Concepts a remapped or quantified RxCUI now points to
+  remapped_to: Array<{ rxcui: string; name: string; termType: string }>;
+}
+
+// Reported by every tool that followed a caller-supplied RxCUI to its replacement
+interface RxcuiRemap {
+  original_rxcui: string;
+  status: RxcuiStatusCode;
+  followed_rxcui: string;
+  remapped_to: RxcuiStatus['remapped_to'];
+  message: string;
+}
+
+interface DrugClass {
+  class_id: string;
+  class_name: string;
+  class_type: string;
+  system: ClassSystem;
+  rela: string;
+  rela_source: string;
+  drug: { rxcui: string; name: string; termType: string };
+}
+
+// Term types OpenFDA lists in a label's openfda.rxcui field
+const LABELED_PRODUCT_TTYS = ['SCD', 'SBD', 'GPCK', 'BPCK'];
+
+// Upper bound on the RxCUIs OR-ed into one OpenFDA search
+const MAX_LABEL_SEARCH_RXCUIS = 100;
+
+interface ProductConcept {
+  rxcui: string;
+  name: string;
+  termType: string;
+  ndcs?: string[];
+}
+
+// Products interchangeable with one SCD: same ingredients, strengths and dose form
+interface EquivalenceGroup {
+  scd: ProductConcept;
+  is_input_group: boolean;
+  branded_products: ProductConcept[];
+  packs: ProductConcept[];
+}
+
+// A concept together with one of its codes in another vocabulary
+interface SourceCodeMapping {
+  rxcui: string;
+  name: string;
+  termType: string;
+  source: string;
   code: string;
+}
+
+interface SpellingCorrection {
+  original: string;
+  corrected: string;
+  method: 'spelling_suggestion' | 'approximate_term';
+}
+
+// Term types in the order the name resolver prefers them
+const TTY_PREFERENCE = ['IN', 'MIN', 'BN', 'SCD', 'SBD'];
+
+const MAX_RESOLUTION_ALTERNATIVES = 5;
+
+// Upstream lookups one ingredient list or RAG call may have in flight at once
+const INGREDIENT_PROPERTY_CONCURRENCY = 4;
+const CLASS_LOOKUP_CONCURRENCY = 4;
+const RAG_SOURCE_CONCURRENCY = 3;
+
+// BM25 weights read from chunk metadata: the name search repeats concepts
+// that the dedicated sources describe in more detail, and ingredient-level
+// concepts answer most questions about a drug better than single products
+const RAG_METADATA_BOOSTS = {
+  type: { search: 0.8, generic: 1, brand: 1, atc: 1.2, ingredients: 1.1 },
+  tty: { IN: 1.2, MIN: 1.2, PIN: 1.1 }
+};
+
+// MMR trade-off and per-source cap, so near-identical records from one long
+// list do not fill the whole top-k
+const RAG_DIVERSITY = 0.7;
+const RAG_MAX_CHUNKS_PER_SOURCE = 2;
+
+// Payload of any tool; MCP wraps it as structured content plus rendered text
+export type ToolResult =
+  | DrugSearchResult
+  | GenericNamesResult
+  | BrandNamesResult
+  | ATCClassificationResult
+  | IngredientsResult
+  | ApproximateMatchResult
+  | NormalizeNdcResult
+  | NdcToRxcuiResult
+  | NdcsForRxcuiResult
+  | NdcPropertiesResult
+  | DrugClassesResult
+  | ClassMembersResult
+  | BrowseATCClassResult
+  | DrugLabelsResult
+  | LabelSectionResult
+  | BoxedWarningResult
+  | EquivalentProductsResult
+  | MapIdentifierResult
+  | RxcuiStatusResult
+  | WarmCacheResult
+  | RAGResult;
+
+type RAGSourceData =
+  | { type: 'search'; data: DrugSearchResult }
+  | { type: 'generic'; data: GenericNamesResult }
+  | { type: 'brand'; data: BrandNamesResult }
+  | { type: 'atc'; data: ATCClassificationResult }
+  | { type: 'ingredients'; data: IngredientsResult };
+
+interface RAGSource {
+  type: RAGSourceData['type'];
+  run: () => Promise<RAGSourceData['data']>;
+}
+
+interface RankedCandidate {
+  rxcui: string;
   name: string;
-  level: number;
+  termType: string;
+  suppress: string;
+  exact_match: boolean;
+  score: number;
 }
 
-interface Ingredient {
+// How a drug name was turned into an RxCUI
+interface NameResolution extends RankedCandidate {
+  preferred_tty?: string;
+  ambiguous: boolean;
+  alternatives: RankedCandidate[];
+}
+
+interface ApproximateCandidate {
+  rank: number;
+  score: number;
   rxcui: string;
   name: string;
-  strength?: string;
+  termType?: string;
+  source: string;
 }
 
-class RxNavServer {
-  private server: Server;
-  private baseUrl = "https://rxnav.nlm.nih.gov/REST";
+export class RxNavServer {
+  private baseUrl = process.env.RXNAV_BASE_URL || "https://rxnav.nlm.nih.gov/REST";
   private maxRetries = 3;
   private retryDelay = 1000; // 1 second
   private enableLogging = process.env.RXNAV_DEBUG === 'true';
+  private cache: ResponseCache | null = process.env.RXNAV_CACHE_DISABLED === 'true' ? null : ResponseCache.fromEnv();
+  private cacheStats = new AsyncLocalStorage<CacheStats>();
+  // Upstream failures seen while warming the cache, including ones the tools
+  // tolerate (such as a missing per-ingredient property) and so never throw
+  private warmFailures = new AsyncLocalStorage<Array<{ endpoint: string; error: string }>>();
+  private backend: 'remote' | 'local' = process.env.RXNAV_BACKEND === 'local' ? 'local' : 'remote';
+  private localStore: Promise<RxNormStore> | null = null;
+  private openFDA = new OpenFDAClient();
+  private scheduler = upstreamScheduler;
+  private resourcePollMs = parseFloat(process.env.RXNAV_RESOURCE_POLL_MINUTES || '60') * 60 * 1000;
 
   constructor() {
-    this.server = new Server(
+    process.on("uncaughtException", (error) => {
+      this.log("error", "Uncaught Exception", error);
+      console.error("[Uncaught Exception]", error);
+      process.exit(1);
+    });
+    
+    process.on("unhandledRejection", (reason, promise) => {
+      this.log("error", "Unhandled Rejection", { reason, promise });
+      console.error("[Unhandled Rejection]", reason);
+    });
+  }
+
+  /**
+   * Builds an MCP protocol server whose tools run on this instance. Each
+   * connection needs its own (stdio, or one per HTTP session) while the
+   * cache and backend stay shared.
+   */
+  createMcpServer(): Server {
+    const server = new Server(
       {
         name: "rxnav-drug-terminology",
         version: "0.1.0",
@@ -83,161 +368,29 @@ class RxNavServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
         },
       }
     );
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
     
     // Error handling
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       this.log("error", "MCP Server Error", error);
       console.error("[MCP Error]", error);
     };
-    
-    process.on("SIGINT", async () => {
-      this.log("info", "Shutting down RxNav MCP server");
-      await this.server.close();
-      process.exit(0);
-    });
-    
-    process.on("uncaughtException", (error) => {
-      this.log("error", "Uncaught Exception", error);
-      console.error("[Uncaught Exception]", error);
-      process.exit(1);
-    });
-    
-    process.on("unhandledRejection", (reason, promise) => {
-      this.log("error", "Unhandled Rejection", { reason, promise });
-      console.error("[Unhandled Rejection]", reason);
-    });
+
+    return server;
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "search_drug_by_name",
-          description: "Search for drug information by name using RxNav API. Returns RxNorm concept information including RXCUI and related drug details.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              drug_name: {
-                type: "string",
-                description: "Name of the drug to search for. Can be brand name, generic name, or ingredient name."
-              },
-              limit: {
-                type: "number",
-                description: "Maximum number of results to return",
-                default: 10,
-                minimum: 1,
-                maximum: 50
-              }
-            },
-            required: ["drug_name"]
-          }
-        },
-        {
-          name: "get_generic_name",
-          description: "Get the generic name(s) for a given drug name or RxCUI. Converts brand names to their corresponding generic names.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              drug_identifier: {
-                type: "string",
-                description: "Drug name (brand or generic) or RxCUI to get generic name for"
-              }
-            },
-            required: ["drug_identifier"]
-          }
-        },
-        {
-          name: "get_brand_names",
-          description: "Get brand names for a given generic drug name. Returns all commercial brand names associated with the generic drug.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              generic_name: {
-                type: "string",
-                description: "Generic drug name to find brand names for"
-              }
-            },
-            required: ["generic_name"]
-          }
-        },
-        {
-          name: "get_atc_classification",
-          description: "Get ATC (Anatomical Therapeutic Chemical) classification codes for a given drug name or RxCUI. Returns WHO ATC classification hierarchy information.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              drug_identifier: {
-                type: "string",
-                description: "Drug name (brand or generic) or RxCUI to get ATC classification for"
-              }
-            },
-            required: ["drug_identifier"]
-          }
-        },
-        {
-          name: "ae_pipeline_rag",
-          description: "Advanced RAG pipeline for drug terminology analysis. Fetches, extracts, chunks, retrieves and summarizes RxNav drug terminology data in one call to prevent LLM response truncation.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description: "Natural language query about drug terminology. Example: 'ATC classification and generic names'"
-              },
-              drug: {
-                type: "string",
-                description: "Drug name to focus the analysis on. Example: 'aspirin', 'metformin'"
-              },
-              condition: {
-                type: "string",
-                description: "Medical condition context for drug classification. Example: 'diabetes', 'cardiovascular'"
-              },
-              top_k: {
-                type: "number",
-                description: "Number of most relevant text chunks to return (1-10)",
-                default: 5,
-                minimum: 1,
-                maximum: 10
-              },
-              filters: {
-                type: "object",
-                description: "Additional filters for data retrieval",
-                properties: {
-                  limit: {
-                    type: "number",
-                    description: "Maximum drug records to fetch",
-                    default: 50,
-                    minimum: 1,
-                    maximum: 100
-                  }
-                }
-              }
-            }
-          }
-        },
-        {
-          name: "get_drug_ingredients",
-          description: "Get active ingredients for a given drug name or RxCUI. Returns ingredient information including strength and dosage form details.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              drug_identifier: {
-                type: "string",
-                description: "Drug name (brand or generic) or RxCUI to get ingredients for"
-              }
-            },
-            required: ["drug_identifier"]
-          }
-        }
-      ],
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: listMcpTools(),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: rawArgs } = request.params;
 
       // Handle cases where arguments are double-encoded as a JSON string
@@ -264,184 +417,529 @@ class RxNavServer {
 
       try {
         this.log('info', `Executing tool: ${name}`, { arguments: args });
-        
-        switch (name) {
-          case "search_drug_by_name":
-            const searchParams = DrugSearchParamsSchema.parse(args);
-            this.validateDrugIdentifier(searchParams.drug_name);
-            return await this.searchDrugByName(searchParams.drug_name, searchParams.limit || 10);
-          
-          case "get_generic_name":
-            const genericParams = DrugIdentifierParamsSchema.parse(args);
-            this.validateDrugIdentifier(genericParams.drug_identifier);
-            return await this.getGenericName(genericParams.drug_identifier);
-          
-          case "get_brand_names":
-            const brandParams = GenericNameParamsSchema.parse(args);
-            this.validateDrugIdentifier(brandParams.generic_name);
-            return await this.getBrandNames(brandParams.generic_name);
-          
-          case "get_atc_classification":
-            const atcParams = DrugIdentifierParamsSchema.parse(args);
-            this.validateDrugIdentifier(atcParams.drug_identifier);
-            return await this.getATCClassification(atcParams.drug_identifier);
-          
-          case "ae_pipeline_rag":
-            const ragParams = AEPipelineRAGParamsSchema.parse(args);
-            return await this.aePipelineRag(ragParams);
-          
-          case "get_drug_ingredients":
-            const ingredientParams = DrugIdentifierParamsSchema.parse(args);
-            this.validateDrugIdentifier(ingredientParams.drug_identifier);
-            return await this.getDrugIngredients(ingredientParams.drug_identifier);
-          
-          default:
-            this.log('error', `Unknown tool requested: ${name}`);
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
-        }
+
+        const stats = createCacheStats();
+        const payload = await this.cacheStats.run(stats, () => this.executeTool(name, args));
+
+        // Tools advertise an outputSchema: the payload goes out as structured content, with a readable text rendering
+        return {
+          content: [{ type: "text", text: renderToolResult(payload) }],
+          structuredContent: payload,
+          _meta: { cache: stats }
+        };
       } catch (error) {
         this.log('error', `Tool execution failed: ${name}`, { 
           error: error instanceof Error ? error.message : String(error),
           arguments: args 
         });
         
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        // Handle Zod validation errors
-        if (error && typeof error === 'object' && 'issues' in error) {
-          const zodError = error as any;
-          const issues = zodError.issues.map((issue: any) => 
-            `${issue.path.join('.')}: ${issue.message}`
-          ).join(', ');
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            `Parameter validation failed: ${issues}`
-          );
+        throw this.toMcpError(name, error);
+      }
+    });
+  }
+
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listATCRootResources(),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const { json, markdown } = await this.readResource(uri);
+
+      return {
+        contents: [
+          { uri, mimeType: "text/markdown", text: markdown },
+          { uri, mimeType: "application/json", text: JSON.stringify(json, null, 2) }
+        ]
+      };
+    });
+
+    // Subscribed URIs with the JSON last sent, re-read every resourcePollMs;
+    // changes show up once the cached RxNav responses are refreshed
+    const subscriptions = new Map<string, string>();
+    let pollTimer: NodeJS.Timeout | undefined;
+
+    const poll = async () => {
+      for (const [uri, previous] of subscriptions) {
+        try {
+          const current = JSON.stringify((await this.readResource(uri)).json);
+          if (subscriptions.has(uri) && current !== previous) {
+            subscriptions.set(uri, current);
+            await server.sendResourceUpdated({ uri });
+          }
+        } catch (error) {
+          this.log('warn', 'Failed to refresh subscribed resource', {
+            uri,
+            error: error instanceof Error ? error.message : String(error)
+          });
         }
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`
-        );
       }
+    };
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const { json } = await this.readResource(uri);
+      subscriptions.set(uri, JSON.stringify(json));
+
+      if (!pollTimer) {
+        pollTimer = setInterval(poll, this.resourcePollMs);
+        pollTimer.unref();
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+
+      if (subscriptions.size === 0 && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+      }
+      return {};
     });
+
+    server.onclose = () => {
+      subscriptions.clear();
+      clearInterval(pollTimer);
+    };
   }
 
-  private async makeRxNavRequest(endpoint: string, retryCount = 0): Promise<any> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    this.log('info', `Making RxNav API request`, { url, attempt: retryCount + 1 });
-    
+  /**
+   * Reads an `rxnorm://` or `atc://` resource as JSON plus its Markdown card.
+   */
+  private async readResource(uri: string): Promise<{ json: object; markdown: string }> {
+    const target = parseResourceUri(uri);
+    if (!target) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+
     try {
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        this.log('warn', 'Request timeout, aborting', { url });
-        controller.abort();
-      }, 30000); // 30 seconds timeout
-      
-      const startTime = Date.now();
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'RxNav-MCP-Server/0.1.0'
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      const duration = Date.now() - startTime;
-      
-      this.log('info', `RxNav API response received`, { 
-        url, 
-        status: response.status, 
-        duration: `${duration}ms` 
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        const errorMessage = `RxNav API error (${response.status}): ${errorText}`;
-        this.log('error', errorMessage, { url, status: response.status });
-        throw new Error(errorMessage);
-      }
+      switch (target.kind) {
+        case 'concept': {
+          const concept = await this.getRxcuiStatus(target.rxcui);
+          if (concept.status === 'unknown') break;
+          return { json: concept, markdown: renderConceptCard(concept) };
+        }
 
-      const data = await response.json();
-      this.log('info', `RxNav API request successful`, { 
-        url, 
-        hasData: !!data,
-        duration: `${duration}ms`
-      });
-      
-      return data;
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.log('error', `RxNav API request failed (attempt ${retryCount + 1})`, { 
-        url, 
-        error: errorMessage,
-        retryCount 
-      });
-      
-      // Retry logic for network errors
-      if (retryCount < this.maxRetries && this.isRetryableError(error)) {
-        const delay = this.retryDelay * Math.pow(2, retryCount); // Exponential backoff
-        this.log('info', `Retrying request after delay`, { url, delay: `${delay}ms` });
-        await this.sleep(delay);
-        return this.makeRxNavRequest(endpoint, retryCount + 1);
+        case 'related': {
+          const related = await this.getRelatedConceptGroups(target.rxcui);
+          if (!related) break;
+          return { json: related, markdown: renderRelatedCard(related) };
+        }
+
+        case 'atc': {
+          const atc = await this.browseATCClass(target.code, ['IN', 'SCD'], 1, 100);
+          return { json: atc, markdown: renderATCCard(atc) };
+        }
       }
-      
-      // Final failure
-      this.log('error', `RxNav API request failed permanently`, { 
-        url, 
-        totalAttempts: retryCount + 1,
-        error: errorMessage 
-      });
-      
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      this.log('error', 'Failed to read resource', { uri, error: error instanceof Error ? error.message : String(error) });
       throw new McpError(
         ErrorCode.InternalError,
-        `RxNav API request failed after ${retryCount + 1} attempts: ${errorMessage}`
+        `Failed to read resource "${uri}": ${error instanceof Error ? error.message : String(error)}`
       );
     }
-  }
 
-  private isRetryableError(error: any): boolean {
-    // Retry on network errors, timeouts, and 5xx server errors
-    return error.code === 'ECONNRESET' || 
-           error.code === 'ETIMEDOUT' || 
-           error.message.includes('timeout') ||
-           (error.message.includes('500') || error.message.includes('502') || 
-            error.message.includes('503') || error.message.includes('504'));
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+  /**
+   * Runs a tool outside of MCP, as the HTTP server does, and returns its
+   * JSON payload. Failures are McpErrors.
+   */
+  async callTool(name: string, args: any): Promise<ToolResult> {
+    try {
+      return await this.cacheStats.run(createCacheStats(), () => this.executeTool(name, args));
+    } catch (error) {
+      this.log('error', `Tool execution failed: ${name}`, {
+        error: error instanceof Error ? error.message : String(error),
+        arguments: args
+      });
 
-  private log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
-    if (!this.enableLogging && level !== 'error') return;
-    
-    const timestamp = new Date().toISOString();
-    const logEntry = {
-      timestamp,
-      level,
-      message,
-      ...(data && { data })
-    };
-    
-    if (level === 'error') {
-      console.error(`[${timestamp}] [${level.toUpperCase()}] ${message}`, data || '');
-    } else if (this.enableLogging) {
-      console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}`, data || '');
+      throw this.toMcpError(name, error);
     }
   }
 
-  private validateDrugIdentifier(identifier: string): void {
+  private toMcpError(name: string, error: unknown): McpError {
+    if (error instanceof McpError) {
+      return error;
+    }
+    
+    // Handle Zod validation errors
+    if (error && typeof error === 'object' && 'issues' in error) {
+      const zodError = error as any;
+      const issues = zodError.issues.map((issue: any) => 
+        `${issue.path.join('.')}: ${issue.message}`
+      ).join(', ');
+      return new McpError(
+        ErrorCode.InvalidParams,
+        `Parameter validation failed: ${issues}`
+      );
+    }
+    
+    return new McpError(
+      ErrorCode.InternalError,
+      `Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  private async executeTool(name: string, args: any): Promise<ToolResult> {
+    switch (name) {
+      case "search_drug_by_name":
+        const searchParams = DrugSearchParamsSchema.parse(args);
+        this.validateDrugIdentifier(searchParams.drug_name);
+        return await this.searchDrugByName(searchParams.drug_name, searchParams.limit || 10);
+      
+      case "get_generic_name":
+        const genericParams = DrugIdentifierParamsSchema.parse(args);
+        this.validateDrugIdentifier(genericParams.drug_identifier);
+        return await this.getGenericName(genericParams.drug_identifier, genericParams.preferred_tty);
+      
+      case "get_brand_names":
+        const brandParams = GenericNameParamsSchema.parse(args);
+        this.validateDrugIdentifier(brandParams.generic_name);
+        return await this.getBrandNames(brandParams.generic_name);
+      
+      case "get_atc_classification":
+        const atcParams = DrugIdentifierParamsSchema.parse(args);
+        this.validateDrugIdentifier(atcParams.drug_identifier);
+        return await this.getATCClassification(atcParams.drug_identifier, atcParams.preferred_tty);
+      
+      case "ae_pipeline_rag":
+        const ragParams = AEPipelineRAGParamsSchema.parse(args);
+        return await this.aePipelineRag(ragParams);
+      
+      case "get_drug_ingredients":
+        const ingredientParams = DrugIdentifierParamsSchema.parse(args);
+        this.validateDrugIdentifier(ingredientParams.drug_identifier);
+        return await this.getDrugIngredients(ingredientParams.drug_identifier, ingredientParams.preferred_tty);
+      
+      case "approximate_match":
+        const approxParams = ApproximateMatchParamsSchema.parse(args);
+        this.validateDrugIdentifier(approxParams.term);
+        return await this.approximateMatch(approxParams.term, approxParams.max_entries || 10);
+      
+      case "normalize_ndc":
+        const normalizeParams = NormalizeNdcParamsSchema.parse(args);
+        this.validateDrugIdentifier(normalizeParams.ndc);
+        return await this.normalizeNdcCode(normalizeParams.ndc);
+      
+      case "ndc_to_rxcui":
+        const ndcParams = NdcParamsSchema.parse(args);
+        this.validateDrugIdentifier(ndcParams.ndc);
+        return await this.ndcToRxcui(ndcParams.ndc);
+      
+      case "get_ndcs_for_rxcui":
+        const rxcuiNdcParams = RxcuiNdcParamsSchema.parse(args);
+        return await this.getNdcsForRxcui(rxcuiNdcParams.rxcui, rxcuiNdcParams.include_historical);
+      
+      case "get_ndc_properties":
+        const ndcPropsParams = NdcParamsSchema.parse(args);
+        this.validateDrugIdentifier(ndcPropsParams.ndc);
+        return await this.getNdcProperties(ndcPropsParams.ndc);
+      
+      case "get_drug_classes":
+        const classParams = DrugClassesParamsSchema.parse(args);
+        this.validateDrugIdentifier(classParams.drug_identifier);
+        return await this.getDrugClasses(
+          classParams.drug_identifier,
+          classParams.class_systems || (Object.keys(CLASS_SYSTEMS) as ClassSystem[]),
+          classParams.preferred_tty
+        );
+      
+      case "get_class_members":
+        const membersParams = ClassMembersParamsSchema.parse(args);
+        return await this.getClassMembers(membersParams.class_id, membersParams.class_system, membersParams.ttys);
+      
+      case "browse_atc_class":
+        const browseParams = BrowseATCClassParamsSchema.parse(args);
+        return await this.browseATCClass(
+          browseParams.atc_code.toUpperCase(),
+          browseParams.ttys,
+          browseParams.page,
+          browseParams.page_size
+        );
+      
+      case "search_drug_labels":
+        const labelParams = DrugLabelParamsSchema.parse(args);
+        this.validateDrugIdentifier(labelParams.drug_identifier);
+        return await this.searchDrugLabels(labelParams.drug_identifier, labelParams.preferred_tty, labelParams.limit);
+      
+      case "get_label_section":
+        const sectionParams = LabelSectionParamsSchema.parse(args);
+        this.validateDrugIdentifier(sectionParams.drug_identifier);
+        return await this.getLabelSection(
+          sectionParams.drug_identifier,
+          sectionParams.section,
+          sectionParams.preferred_tty,
+          sectionParams.limit
+        );
+      
+      case "get_boxed_warning":
+        const boxedParams = DrugLabelParamsSchema.parse(args);
+        this.validateDrugIdentifier(boxedParams.drug_identifier);
+        return await this.getBoxedWarning(boxedParams.drug_identifier, boxedParams.preferred_tty, boxedParams.limit);
+      
+      case "get_equivalent_products":
+        const equivalentParams = EquivalentProductsParamsSchema.parse(args);
+        this.validateDrugIdentifier(equivalentParams.drug_identifier);
+        return await this.getEquivalentProducts(
+          equivalentParams.drug_identifier,
+          equivalentParams.preferred_tty,
+          equivalentParams.include_ndcs,
+          equivalentParams.max_groups
+        );
+      
+      case "map_identifier":
+        const mapParams = MapIdentifierParamsSchema.parse(args);
+        if (mapParams.rxcui) {
+          return await this.mapRxcuiToCodes(
+            mapParams.rxcui,
+            mapParams.sources || (Object.keys(CODE_SYSTEMS) as CodeSystem[])
+          );
+        }
+        return await this.mapCodeToRxcuis(mapParams.source!, mapParams.code!);
+      
+      case "get_rxcui_status":
+        const statusParams = RxcuiParamsSchema.parse(args);
+        return await this.getRxcuiStatus(statusParams.rxcui);
+      
+      case "warm_cache":
+        const warmParams = WarmCacheParamsSchema.parse(args);
+        warmParams.drug_names.forEach(drugName => this.validateDrugIdentifier(drugName));
+        return await this.warmCache(warmParams.drug_names);
+      
+      default:
+        this.log('error', `Unknown tool requested: ${name}`);
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  private async makeRxNavRequest(endpoint: string): Promise<any> {
+    try {
+      return await this.requestRxNav(endpoint);
+    } catch (error) {
+      this.warmFailures.getStore()?.push({
+        endpoint,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async requestRxNav(endpoint: string): Promise<any> {
+    if (this.backend === 'local') {
+      return this.queryLocalStore(endpoint);
+    }
+
+    if (!this.cache) {
+      return this.scheduler.coalesce(`${this.baseUrl}${endpoint}`, () => this.fetchRxNav(endpoint));
+    }
+
+    const stats = this.cacheStats.getStore();
+    const cached = await this.cache.lookup(endpoint);
+
+    if (cached?.state === 'fresh') {
+      if (stats) stats.hits++;
+      return cached.value;
+    }
+
+    if (cached?.state === 'stale') {
+      // Serve the stale copy immediately and refresh it in the background
+      if (stats) stats.stale_hits++;
+      this.revalidate(endpoint);
+      return cached.value;
+    }
+
+    if (stats) stats.misses++;
+    return this.fetchIntoCache(endpoint);
+  }
+
+  // Concurrent misses and revalidations of one endpoint share a single fetch
+  private fetchIntoCache(endpoint: string): Promise<any> {
+    return this.scheduler.coalesce(`${this.baseUrl}${endpoint}`, async () => {
+      const data = await this.fetchRxNav(endpoint);
+      await this.storeInCache(endpoint, data);
+      return data;
+    });
+  }
+
+  private async queryLocalStore(endpoint: string): Promise<any> {
+    if (!this.localStore) {
+      const path = process.env.RXNAV_RRF_PATH;
+      if (!path) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          "RXNAV_BACKEND=local requires RXNAV_RRF_PATH to point at an RRF directory or an imported snapshot"
+        );
+      }
+
+      this.log('info', 'Loading local RxNorm store', { path });
+      this.localStore = RxNormStore.load(path);
+      this.localStore.catch(() => { this.localStore = null; });
+    }
+
+    try {
+      const store = await this.localStore;
+      return store.handle(endpoint);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log('error', 'Local RxNorm lookup failed', { endpoint, error: errorMessage });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Local RxNorm lookup failed: ${errorMessage}`
+      );
+    }
+  }
+
+  private revalidate(endpoint: string): void {
+    this.fetchIntoCache(endpoint).catch(error => {
+      this.log('warn', 'Background cache revalidation failed', {
+        endpoint,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  private async storeInCache(endpoint: string, data: any): Promise<void> {
+    try {
+      await this.cache?.set(endpoint, data);
+    } catch (error) {
+      // A failing disk store must never fail the request itself
+      this.log('warn', 'Failed to persist RxNav response to cache', {
+        endpoint,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async fetchRxNav(endpoint: string, retryCount = 0): Promise<any> {
+    const url = `${this.baseUrl}${endpoint}`;
+    
+    this.log('info', `Making RxNav API request`, { url, attempt: retryCount + 1 });
+    
+    try {
+      // Wait for the host's rate limit before the timeout starts counting
+      await this.scheduler.acquire(url);
+
+
+      // Create AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => {
+        this.log('warn', 'Request timeout, aborting', { url });
+        controller.abort();
+      }, 30000); // 30 seconds timeout
+      
+      const startTime = Date.now();
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': 'RxNav-MCP-Server/0.1.0'
+          },
+          signal: controller.signal
+        });
+      } finally {
+        // Also on failure, or the pending timer keeps the process alive for 30 seconds
+        clearTimeout(timeoutId);
+      }
+      const duration = Date.now() - startTime;
+      
+      this.log('info', `RxNav API response received`, { 
+        url, 
+        status: response.status, 
+        duration: `${duration}ms` 
+      });
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        const errorMessage = `RxNav API error (${response.status}): ${errorText}`;
+        this.log('error', errorMessage, { url, status: response.status });
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      this.log('info', `RxNav API request successful`, { 
+        url, 
+        hasData: !!data,
+        duration: `${duration}ms`
+      });
+      
+      return data;
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log('error', `RxNav API request failed (attempt ${retryCount + 1})`, { 
+        url, 
+        error: errorMessage,
+        retryCount 
+      });
+      
+      // Retry logic for network errors
+      if (retryCount < this.maxRetries && this.isRetryableError(error)) {
+        const delay = this.retryDelay * Math.pow(2, retryCount); // Exponential backoff
+        this.log('info', `Retrying request after delay`, { url, delay: `${delay}ms` });
+        await this.sleep(delay);
+        return this.fetchRxNav(endpoint, retryCount + 1);
+      }
+      
+      // Final failure
+      this.log('error', `RxNav API request failed permanently`, { 
+        url, 
+        totalAttempts: retryCount + 1,
+        error: errorMessage 
+      });
+      
+      throw new McpError(
+        ErrorCode.InternalError,
+        `RxNav API request failed after ${retryCount + 1} attempts: ${errorMessage}`
+      );
+    }
+  }
+
+  private isRetryableError(error: any): boolean {
+    // Retry on network errors, timeouts, and 5xx server errors
+    return error.code === 'ECONNRESET' || 
+           error.code === 'ETIMEDOUT' || 
+           error.message.includes('timeout') ||
+           (error.message.includes('500') || error.message.includes('502') || 
+            error.message.includes('503') || error.message.includes('504'));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
+    if (!this.enableLogging && level !== 'error') return;
+    
+    const timestamp = new Date().toISOString();
+    const logEntry = {
+      timestamp,
+      level,
+      message,
+      ...(data && { data })
+    };
+    
+    if (level === 'error') {
+      console.error(`[${timestamp}] [${level.toUpperCase()}] ${message}`, data || '');
+    } else if (this.enableLogging) {
+      console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}`, data || '');
+    }
+  }
+
+  private validateDrugIdentifier(identifier: string): IdentifierKind {
     if (!identifier || typeof identifier !== 'string') {
       throw new McpError(
         ErrorCode.InvalidParams,
@@ -462,41 +960,28 @@ class RxNavServer {
         "Drug identifier is too long (maximum 200 characters)"
       );
     }
+
+    return this.detectIdentifierKind(identifier);
+  }
+
+  private detectIdentifierKind(identifier: string): IdentifierKind {
+    // NDCs are numeric too, so they have to be recognized before RxCUIs
+    if (isNdc(identifier)) return 'ndc';
+    if (/^\d+$/.test(identifier.trim())) return 'rxcui';
+    return 'name';
   }
 
-  private async getGenericName(drugIdentifier: string) {
+  private async getGenericName(drugIdentifier: string, preferredTty?: string): Promise<GenericNamesResult> {
     try {
-      // First, try to get RxCUI if drugIdentifier is a drug name
-      let rxcui = drugIdentifier;
-      
-      // Check if drugIdentifier is already an RxCUI (numeric)
-      if (!/^\d+$/.test(drugIdentifier)) {
-        // It's a drug name, need to find RxCUI first
-        const searchEndpoint = `/drugs.json?name=${encodeURIComponent(drugIdentifier)}`;
-        const searchData = await this.makeRxNavRequest(searchEndpoint);
-        
-        if (!searchData.drugGroup || !searchData.drugGroup.conceptGroup) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  query: drugIdentifier,
-                  message: "No drug found matching the identifier",
-                  generic_names: []
-                }, null, 2)
-              }
-            ]
-          };
-        }
-        
-        // Get the first available RxCUI
-        for (const group of searchData.drugGroup.conceptGroup) {
-          if (group.conceptProperties && group.conceptProperties.length > 0) {
-            rxcui = group.conceptProperties[0].rxcui;
-            break;
-          }
-        }
+      const { rxcui, spellingCorrection, remap: rxcuiRemap, resolution } =
+        await this.resolveToRxcui(drugIdentifier, preferredTty);
+
+      if (!rxcui) {
+        return {
+          query: drugIdentifier,
+          message: this.unresolvedMessage(drugIdentifier),
+          generic_names: []
+        };
       }
       
       // Now get related concepts to find generic names (IN = Ingredient, PIN = Precise Ingredient)
@@ -538,17 +1023,13 @@ class RxNavServer {
       }
       
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query: drugIdentifier,
-              rxcui: rxcui,
-              generic_names: genericNames,
-              total_found: genericNames.length
-            }, null, 2)
-          }
-        ]
+        query: drugIdentifier,
+        rxcui: rxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        ...(resolution && { resolution }),
+        generic_names: genericNames,
+        total_found: genericNames.length
       };
       
     } catch (error) {
@@ -560,60 +1041,17 @@ class RxNavServer {
     }
   }
 
-  private async getBrandNames(genericName: string) {
+  private async getBrandNames(genericName: string): Promise<BrandNamesResult> {
     try {
-      // First, search for the generic drug to get its RxCUI
-      const searchEndpoint = `/drugs.json?name=${encodeURIComponent(genericName)}`;
-      const searchData = await this.makeRxNavRequest(searchEndpoint);
-      
-      if (!searchData.drugGroup || !searchData.drugGroup.conceptGroup) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                query: genericName,
-                message: "No generic drug found matching the name",
-                brand_names: []
-              }, null, 2)
-            }
-          ]
-        };
-      }
-      
-      // Find the generic ingredient RxCUI (look for IN or PIN term types)
-      let genericRxcui = null;
-      for (const group of searchData.drugGroup.conceptGroup) {
-        if (group.tty === 'IN' || group.tty === 'PIN') {
-          if (group.conceptProperties && group.conceptProperties.length > 0) {
-            genericRxcui = group.conceptProperties[0].rxcui;
-            break;
-          }
-        }
-      }
-      
-      // If no specific generic found, use the first available RxCUI
-      if (!genericRxcui) {
-        for (const group of searchData.drugGroup.conceptGroup) {
-          if (group.conceptProperties && group.conceptProperties.length > 0) {
-            genericRxcui = group.conceptProperties[0].rxcui;
-            break;
-          }
-        }
-      }
+      // Resolve the generic drug, preferring its ingredient concept
+      const { resolution, spellingCorrection } = await this.resolveDrugName(genericName, 'IN');
+      const genericRxcui = resolution?.rxcui;
       
       if (!genericRxcui) {
         return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                query: genericName,
-                message: "Could not find RxCUI for the generic drug",
-                brand_names: []
-              }, null, 2)
-            }
-          ]
+          query: genericName,
+          message: "No generic drug found matching the name",
+          brand_names: []
         };
       }
       
@@ -638,17 +1076,12 @@ class RxNavServer {
       }
       
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query: genericName,
-              generic_rxcui: genericRxcui,
-              brand_names: brandNames,
-              total_found: brandNames.length
-            }, null, 2)
-          }
-        ]
+        query: genericName,
+        generic_rxcui: genericRxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(resolution && { resolution }),
+        brand_names: brandNames,
+        total_found: brandNames.length
       };
       
     } catch (error) {
@@ -660,311 +1093,1438 @@ class RxNavServer {
     }
   }
 
-  private async getATCClassification(drugIdentifier: string) {
+  private async getATCClassification(drugIdentifier: string, preferredTty?: string): Promise<ATCClassificationResult> {
     try {
-      // First, try to get RxCUI if drugIdentifier is a drug name
-      let rxcui = drugIdentifier;
-      
-      // Check if drugIdentifier is already an RxCUI (numeric)
-      if (!/^\d+$/.test(drugIdentifier)) {
-        // It's a drug name, need to find RxCUI first
-        const searchEndpoint = `/drugs.json?name=${encodeURIComponent(drugIdentifier)}`;
-        const searchData = await this.makeRxNavRequest(searchEndpoint);
-        
-        if (!searchData.drugGroup || !searchData.drugGroup.conceptGroup) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  query: drugIdentifier,
-                  message: "No drug found matching the identifier",
-                  atc_codes: []
-                }, null, 2)
-              }
-            ]
-          };
-        }
-        
-        // Get the first available RxCUI
-        for (const group of searchData.drugGroup.conceptGroup) {
-          if (group.conceptProperties && group.conceptProperties.length > 0) {
-            rxcui = group.conceptProperties[0].rxcui;
-            break;
-          }
-        }
+      const { rxcui, spellingCorrection, remap: rxcuiRemap, resolution } =
+        await this.resolveToRxcui(drugIdentifier, preferredTty);
+
+      if (!rxcui) {
+        return {
+          query: drugIdentifier,
+          message: this.unresolvedMessage(drugIdentifier),
+          atc_codes: []
+        };
       }
       
       // Get ATC properties for the RxCUI
       const atcEndpoint = `/rxcui/${rxcui}/property.json?propName=ATC`;
       const atcData = await this.makeRxNavRequest(atcEndpoint);
       
-      const atcCodes: Array<{code: string, name?: string, level: number}> = [];
+      // ATC codes found, with the name of the ingredient they were found on if known
+      const foundCodes: Array<{code: string, substanceName?: string}> = [];
       
       if (atcData.propConceptGroup && atcData.propConceptGroup.propConcept) {
         for (const prop of atcData.propConceptGroup.propConcept) {
           if (prop.propName === 'ATC') {
-            const atcCode = prop.propValue;
-            const level = this.getATCLevel(atcCode);
-            atcCodes.push({
-              code: atcCode,
-              level: level,
-              name: this.getATCLevelName(level)
-            });
+            foundCodes.push({ code: prop.propValue });
           }
         }
       }
-      
-      // If no ATC codes found directly, try to get them through related ingredients
-      if (atcCodes.length === 0) {
-        const relatedEndpoint = `/rxcui/${rxcui}/related.json?tty=IN+PIN`;
-        const relatedData = await this.makeRxNavRequest(relatedEndpoint);
-        
-        if (relatedData.relatedGroup && relatedData.relatedGroup.conceptGroup) {
-          for (const group of relatedData.relatedGroup.conceptGroup) {
-            if (group.conceptProperties) {
-              for (const concept of group.conceptProperties) {
-                // Try to get ATC for each ingredient
-                const ingredientATCEndpoint = `/rxcui/${concept.rxcui}/property.json?propName=ATC`;
-                try {
-                  const ingredientATCData = await this.makeRxNavRequest(ingredientATCEndpoint);
-                  
-                  if (ingredientATCData.propConceptGroup && ingredientATCData.propConceptGroup.propConcept) {
-                    for (const prop of ingredientATCData.propConceptGroup.propConcept) {
-                      if (prop.propName === 'ATC') {
-                        const atcCode = prop.propValue;
-                        const level = this.getATCLevel(atcCode);
-                        atcCodes.push({
-                          code: atcCode,
-                          level: level,
-                          name: this.getATCLevelName(level)
-                        });
-                      }
-                    }
-                  }
-                } catch (error) {
-                  // Continue if individual ingredient ATC lookup fails
-                  console.log(`Failed to get ATC for ingredient ${concept.rxcui}: ${error}`);
-                }
-              }
+      
+      // If no ATC codes found directly, try to get them through related ingredients
+      if (foundCodes.length === 0) {
+        const relatedEndpoint = `/rxcui/${rxcui}/related.json?tty=IN+PIN`;
+        const relatedData = await this.makeRxNavRequest(relatedEndpoint);
+        
+        if (relatedData.relatedGroup && relatedData.relatedGroup.conceptGroup) {
+          for (const group of relatedData.relatedGroup.conceptGroup) {
+            if (group.conceptProperties) {
+              for (const concept of group.conceptProperties) {
+                // Try to get ATC for each ingredient
+                const ingredientATCEndpoint = `/rxcui/${concept.rxcui}/property.json?propName=ATC`;
+                try {
+                  const ingredientATCData = await this.makeRxNavRequest(ingredientATCEndpoint);
+                  
+                  if (ingredientATCData.propConceptGroup && ingredientATCData.propConceptGroup.propConcept) {
+                    for (const prop of ingredientATCData.propConceptGroup.propConcept) {
+                      if (prop.propName === 'ATC') {
+                        foundCodes.push({ code: prop.propValue, substanceName: concept.name });
+                      }
+                    }
+                  }
+                } catch (error) {
+                  // Continue if individual ingredient ATC lookup fails
+                  console.log(`Failed to get ATC for ingredient ${concept.rxcui}: ${error}`);
+                }
+              }
+            }
+          }
+        }
+      }
+      
+      // Remove duplicates
+      const uniqueFoundCodes = foundCodes.filter((code, index, self) => 
+        index === self.findIndex(c => c.code === code.code)
+      );
+      
+      const uniqueATCCodes: Array<ATCCode & { level_name: string }> = [];
+      for (const found of uniqueFoundCodes) {
+        const described = await this.describeATCCode(found.code, found.substanceName);
+        uniqueATCCodes.push({ ...described, level_name: this.getATCLevelName(described.level) });
+      }
+      
+      return {
+        query: drugIdentifier,
+        rxcui: rxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        ...(resolution && { resolution }),
+        atc_codes: uniqueATCCodes,
+        atc_tree: buildATCTree(uniqueATCCodes),
+        total_found: uniqueATCCodes.length
+      };
+      
+    } catch (error) {
+      console.error("Error getting ATC classification:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get ATC classification for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Expands an ATC code into its lineage from the anatomical main group down,
+   * naming each level from the bundled index, then RxClass, and falling back
+   * to the generic level description when neither knows the class.
+   */
+  private async describeATCCode(atcCode: string, substanceName?: string): Promise<ATCCode> {
+    const lineage: ATCCode[] = [];
+
+    for (const code of getATCLineageCodes(atcCode)) {
+      const level = getATCLevel(code);
+      lineage.push({
+        code,
+        level,
+        name: await this.getATCClassName(code, level === 5 ? substanceName : undefined)
+      });
+    }
+
+    const level = getATCLevel(atcCode);
+    if (lineage.length === 0) {
+      return { code: atcCode, level, name: this.getATCLevelName(level) };
+    }
+
+    return {
+      code: atcCode,
+      level,
+      name: lineage[lineage.length - 1].name,
+      lineage,
+      path: formatATCPath(lineage)
+    };
+  }
+
+  private async getATCClassName(code: string, substanceName?: string): Promise<string> {
+    if (ATC_INDEX[code]) return ATC_INDEX[code];
+
+    const level = getATCLevel(code);
+
+    // RxClass has ATC classes for levels 1-4 only; level 5 is the substance itself
+    if (level === 5) {
+      return substanceName || this.getATCLevelName(level);
+    }
+
+    try {
+      const data = await this.makeRxNavRequest(`/rxclass/class/byId.json?classId=${encodeURIComponent(code)}`);
+      const concept = data?.rxclassMinConceptList?.rxclassMinConcept?.find((c: any) => c.classId === code);
+      if (concept?.className) return concept.className;
+    } catch (error) {
+      this.log('warn', 'Failed to get ATC class name from RxClass', { code, error });
+    }
+
+    return this.getATCLevelName(level);
+  }
+
+  private async browseATCClass(atcCode: string, ttys: string[], page: number, pageSize: number): Promise<BrowseATCClassResult> {
+    try {
+      const atcClass = await this.describeATCCode(atcCode);
+      const children = await this.getATCChildren(atcCode);
+      const members = await this.getATCMembers(atcCode, ttys);
+
+      // Ingredients first, then clinical drugs, each alphabetically
+      members.sort((a, b) =>
+        ttys.indexOf(a.termType) - ttys.indexOf(b.termType) || a.name.localeCompare(b.name)
+      );
+
+      const totalPages = Math.max(1, Math.ceil(members.length / pageSize));
+      const pageMembers = members.slice((page - 1) * pageSize, page * pageSize);
+
+      const result: ATCCode = {
+        ...atcClass,
+        children,
+        members: pageMembers
+      };
+
+      return {
+        query: atcCode,
+        atc_class: result,
+        ttys,
+        pagination: {
+          page,
+          page_size: pageSize,
+          total_members: members.length,
+          total_pages: totalPages
+        }
+      };
+
+    } catch (error) {
+      console.error("Error browsing ATC class:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to browse ATC class "${atcCode}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getATCChildren(atcCode: string): Promise<ATCCode[]> {
+    if (getATCLevel(atcCode) >= 5) return [];
+
+    try {
+      const data = await this.makeRxNavRequest(`/rxclass/classTree.json?classId=${encodeURIComponent(atcCode)}`);
+      const root = data?.rxclassTree?.find((node: any) => node.rxclassMinConceptItem?.classId === atcCode);
+
+      if (root?.rxclassTree) {
+        return root.rxclassTree
+          .map((child: any) => {
+            const code = child.rxclassMinConceptItem.classId;
+            return { code, name: child.rxclassMinConceptItem.className, level: getATCLevel(code) };
+          })
+          .sort((a: ATCCode, b: ATCCode) => a.code.localeCompare(b.code));
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to get ATC children from RxClass', { atcCode, error });
+    }
+
+    // Level 4 classes have chemical substances as children, which RxClass does not model
+    return getIndexedATCChildren(atcCode);
+  }
+
+  private async getATCMembers(atcCode: string, ttys: string[]): Promise<ATCMember[]> {
+    const members: ATCMember[] = [];
+
+    if (getATCLevel(atcCode) === 5) {
+      // Level 5 is a single substance: find its ingredient concepts, then their related drugs
+      const idData = await this.makeRxNavRequest(`/rxcui.json?idtype=ATC&id=${encodeURIComponent(atcCode)}`);
+      const ingredientRxcuis: string[] = idData?.idGroup?.rxnormId || [];
+      const otherTtys = ttys.filter(tty => tty !== 'IN');
+
+      for (const ingredientRxcui of ingredientRxcuis) {
+        const propsData = await this.makeRxNavRequest(`/rxcui/${ingredientRxcui}/properties.json`);
+        if (propsData?.properties && ttys.includes(propsData.properties.tty)) {
+          members.push({
+            rxcui: ingredientRxcui,
+            name: propsData.properties.name,
+            termType: propsData.properties.tty
+          });
+        }
+
+        if (otherTtys.length > 0) {
+          const relatedData = await this.makeRxNavRequest(`/rxcui/${ingredientRxcui}/related.json?tty=${otherTtys.join('+')}`);
+          for (const group of relatedData?.relatedGroup?.conceptGroup || []) {
+            for (const concept of group.conceptProperties || []) {
+              members.push({ rxcui: concept.rxcui, name: concept.name, termType: concept.tty });
+            }
+          }
+        }
+      }
+    } else {
+      const endpoint = `/rxclass/classMembers.json?classId=${encodeURIComponent(atcCode)}&relaSource=ATC&trans=1&ttys=${ttys.join('+')}`;
+      const data = await this.makeRxNavRequest(endpoint);
+
+      for (const member of data?.drugMemberGroup?.drugMember || []) {
+        members.push({
+          rxcui: member.minConcept?.rxcui,
+          name: member.minConcept?.name,
+          termType: member.minConcept?.tty
+        });
+      }
+    }
+
+    // Remove duplicates based on rxcui
+    return members.filter((member, index, self) =>
+      index === self.findIndex(m => m.rxcui === member.rxcui)
+    );
+  }
+
+  private getATCLevelName(level: number): string {
+    switch (level) {
+      case 1: return "Anatomical main group";
+      case 2: return "Therapeutic subgroup";
+      case 3: return "Pharmacological subgroup";
+      case 4: return "Chemical subgroup";
+      case 5: return "Chemical substance";
+      default: return "Unknown level";
+    }
+  }
+
+  private async getDrugIngredients(drugIdentifier: string, preferredTty?: string): Promise<IngredientsResult> {
+    try {
+      const { rxcui, spellingCorrection, remap: rxcuiRemap, resolution } =
+        await this.resolveToRxcui(drugIdentifier, preferredTty);
+
+      if (!rxcui) {
+        return {
+          query: drugIdentifier,
+          message: this.unresolvedMessage(drugIdentifier),
+          ingredients: []
+        };
+      }
+      
+      // Get related ingredients (IN = Ingredient, PIN = Precise Ingredient)
+      const relatedEndpoint = `/rxcui/${rxcui}/related.json?tty=IN+PIN`;
+      const relatedData = await this.makeRxNavRequest(relatedEndpoint);
+      
+      const ingredients: Array<{
+        rxcui: string, 
+        name: string, 
+        termType: string,
+        strength?: string,
+        dosageForm?: string
+      }> = [];
+      
+      const concepts: any[] = (relatedData.relatedGroup?.conceptGroup || [])
+        .flatMap((group: any) => group.conceptProperties || []);
+
+      // Combination products have several ingredients; fetch their properties side by side
+      ingredients.push(...await mapConcurrent(concepts, INGREDIENT_PROPERTY_CONCURRENCY, async concept => {
+        const ingredient: {
+          rxcui: string, 
+          name: string, 
+          termType: string,
+          strength?: string,
+          dosageForm?: string
+        } = {
+          rxcui: concept.rxcui,
+          name: concept.name,
+          termType: concept.tty
+        };
+        
+        // Try to get additional properties like strength
+        try {
+          const propsEndpoint = `/rxcui/${concept.rxcui}/allProperties.json?prop=all`;
+          const propsData = await this.makeRxNavRequest(propsEndpoint);
+          
+          if (propsData.propConceptGroup && propsData.propConceptGroup.propConcept) {
+            for (const prop of propsData.propConceptGroup.propConcept) {
+              if (prop.propName === 'Strength') {
+                ingredient.strength = prop.propValue;
+              } else if (prop.propName === 'Dose Form') {
+                ingredient.dosageForm = prop.propValue;
+              }
+            }
+          }
+        } catch (error) {
+          // Continue if properties lookup fails
+          console.log(`Failed to get properties for ingredient ${concept.rxcui}: ${error}`);
+        }
+        
+        return ingredient;
+      }));
+      
+      // If no ingredients found through related concepts, try to get them through allRelated
+      if (ingredients.length === 0) {
+        const allRelatedEndpoint = `/rxcui/${rxcui}/allrelated.json`;
+        const allRelatedData = await this.makeRxNavRequest(allRelatedEndpoint);
+        
+        if (allRelatedData.allRelatedGroup && allRelatedData.allRelatedGroup.conceptGroup) {
+          for (const group of allRelatedData.allRelatedGroup.conceptGroup) {
+            if ((group.tty === 'IN' || group.tty === 'PIN') && group.conceptProperties) {
+              for (const concept of group.conceptProperties) {
+                ingredients.push({
+                  rxcui: concept.rxcui,
+                  name: concept.name,
+                  termType: concept.tty
+                });
+              }
+            }
+          }
+        }
+      }
+      
+      // Remove duplicates based on rxcui
+      const uniqueIngredients = ingredients.filter((ingredient, index, self) => 
+        index === self.findIndex(i => i.rxcui === ingredient.rxcui)
+      );
+      
+      return {
+        query: drugIdentifier,
+        rxcui: rxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        ...(resolution && { resolution }),
+        ingredients: uniqueIngredients,
+        total_found: uniqueIngredients.length
+      };
+      
+    } catch (error) {
+      console.error("Error getting drug ingredients:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get ingredients for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private hasDrugConcepts(data: any): boolean {
+    return !!data?.drugGroup?.conceptGroup?.some(
+      (group: any) => group.conceptProperties && group.conceptProperties.length > 0
+    );
+  }
+
+  /**
+   * Looks a name up with `/drugs.json`. When the exact name matches nothing,
+   * retries with RxNav's spelling suggestions and then its best approximate
+   * match, reporting which corrected spelling was used.
+   */
+  private async searchDrugs(drugName: string): Promise<{ data: any; spellingCorrection?: SpellingCorrection }> {
+    const data = await this.makeRxNavRequest(`/drugs.json?name=${encodeURIComponent(drugName)}`);
+    if (this.hasDrugConcepts(data)) {
+      return { data };
+    }
+
+    try {
+      const suggestions = await this.getSpellingSuggestions(drugName);
+      for (const suggestion of suggestions.slice(0, 3)) {
+        const suggestedData = await this.makeRxNavRequest(`/drugs.json?name=${encodeURIComponent(suggestion)}`);
+        if (this.hasDrugConcepts(suggestedData)) {
+          this.log('info', 'Resolved drug name through spelling suggestion', { drugName, suggestion });
+          return {
+            data: suggestedData,
+            spellingCorrection: { original: drugName, corrected: suggestion, method: 'spelling_suggestion' }
+          };
+        }
+      }
+
+      const [best] = await this.getApproximateCandidates(drugName, 1);
+      if (best && best.name && best.name.toLowerCase() !== drugName.toLowerCase()) {
+        const approximateData = await this.makeRxNavRequest(`/drugs.json?name=${encodeURIComponent(best.name)}`);
+        if (this.hasDrugConcepts(approximateData)) {
+          this.log('info', 'Resolved drug name through approximate match', { drugName, match: best.name });
+          return {
+            data: approximateData,
+            spellingCorrection: { original: drugName, corrected: best.name, method: 'approximate_term' }
+          };
+        }
+      }
+    } catch (error) {
+      // A failed fallback should look the same as no match at all
+      this.log('warn', 'Spelling correction lookup failed', {
+        drugName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return { data };
+  }
+
+  private async getSpellingSuggestions(term: string): Promise<string[]> {
+    const data = await this.makeRxNavRequest(`/spellingsuggestions.json?name=${encodeURIComponent(term)}`);
+    return data?.suggestionGroup?.suggestionList?.suggestion || [];
+  }
+
+  private async getApproximateCandidates(term: string, maxEntries: number): Promise<ApproximateCandidate[]> {
+    const endpoint = `/approximateTerm.json?term=${encodeURIComponent(term)}&maxEntries=${maxEntries}&option=1`;
+    const data = await this.makeRxNavRequest(endpoint);
+
+    const candidates: ApproximateCandidate[] = [];
+    const seenRxcuis = new Set<string>();
+
+    for (const candidate of data?.approximateGroup?.candidate || []) {
+      // RxNav returns one candidate per matching atom, so the same concept can appear several times
+      if (!candidate.rxcui || seenRxcuis.has(candidate.rxcui)) continue;
+      seenRxcuis.add(candidate.rxcui);
+
+      candidates.push({
+        rank: parseInt(candidate.rank, 10),
+        score: parseFloat(candidate.score),
+        rxcui: candidate.rxcui,
+        name: candidate.name || '',
+        source: candidate.source || 'RXNORM'
+      });
+    }
+
+    return candidates.slice(0, maxEntries);
+  }
+
+  private async approximateMatch(term: string, maxEntries: number): Promise<ApproximateMatchResult> {
+    try {
+      const candidates = await this.getApproximateCandidates(term, maxEntries);
+
+      // Fill in the concept name and term type, which approximateTerm may omit
+      for (const candidate of candidates) {
+        try {
+          const propsData = await this.makeRxNavRequest(`/rxcui/${candidate.rxcui}/properties.json`);
+          if (propsData?.properties) {
+            candidate.name = propsData.properties.name || candidate.name;
+            candidate.termType = propsData.properties.tty;
+          }
+        } catch (error) {
+          this.log('warn', 'Failed to get properties for approximate candidate', { rxcui: candidate.rxcui, error });
+        }
+      }
+
+      const suggestions = await this.getSpellingSuggestions(term);
+      const spellingSuggestions: Array<{ suggestion: string; rxcuis: string[] }> = [];
+
+      for (const suggestion of suggestions) {
+        const idData = await this.makeRxNavRequest(`/rxcui.json?name=${encodeURIComponent(suggestion)}`);
+        spellingSuggestions.push({
+          suggestion,
+          rxcuis: idData?.idGroup?.rxnormId || []
+        });
+      }
+
+      return {
+        query: term,
+        candidates,
+        spelling_suggestions: spellingSuggestions,
+        total_found: candidates.length
+      };
+
+    } catch (error) {
+      console.error("Error finding approximate matches:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to find approximate matches for "${term}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Resolves an NDC through RxNav's ndcstatus resource. Unhyphenated 10-digit
+   * NDCs are ambiguous, so each 11-digit reading is tried until one is known.
+   */
+  private async lookupNdcStatus(ndc: string): Promise<NdcStatus | null> {
+    const normalization = normalizeNdc(ndc);
+    if (!normalization) return null;
+
+    for (const candidate of normalization.candidates) {
+      const data = await this.makeRxNavRequest(`/ndcstatus.json?ndc=${candidate}`);
+      const ndcStatus = data?.ndcStatus;
+
+      if (ndcStatus && ndcStatus.status && ndcStatus.status !== 'UNKNOWN') {
+        return {
+          normalization,
+          ndc11: ndcStatus.ndc11 || candidate,
+          status: ndcStatus.status,
+          rxcui: ndcStatus.rxcui || null,
+          conceptName: ndcStatus.conceptName || null,
+          conceptStatus: ndcStatus.conceptStatus || null,
+          history: ndcStatus.ndcHistory || []
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private async normalizeNdcCode(ndc: string): Promise<NormalizeNdcResult> {
+    const normalization = normalizeNdc(ndc);
+
+    if (!normalization) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `"${ndc}" is not a valid NDC (expected 10 or 11 digits, or 4-4-2, 5-3-2, 5-4-1 or 5-4-2 hyphenated form)`
+      );
+    }
+
+    return {
+      query: ndc,
+      ...normalization,
+      ambiguous: normalization.ndc11 === null
+    };
+  }
+
+  private async ndcToRxcui(ndc: string): Promise<NdcToRxcuiResult> {
+    try {
+      const normalization = normalizeNdc(ndc);
+      if (!normalization) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `"${ndc}" is not a valid NDC (expected 10 or 11 digits, or 4-4-2, 5-3-2, 5-4-1 or 5-4-2 hyphenated form)`
+        );
+      }
+
+      const ndcStatus = await this.lookupNdcStatus(ndc);
+
+      if (!ndcStatus) {
+        return {
+          query: ndc,
+          normalization,
+          message: "NDC is not known to RxNorm",
+          status: "UNKNOWN",
+          rxcui: null
+        };
+      }
+
+      return {
+        query: ndc,
+        normalization: ndcStatus.normalization,
+        ndc11: ndcStatus.ndc11,
+        ndc_hyphenated: formatNdc11(ndcStatus.ndc11),
+        status: ndcStatus.status,
+        rxcui: ndcStatus.rxcui,
+        name: ndcStatus.conceptName,
+        concept_status: ndcStatus.conceptStatus,
+        history: ndcStatus.history
+      };
+
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      console.error("Error mapping NDC to RxCUI:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to map NDC "${ndc}" to RxCUI: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getNdcsForRxcui(query: string, includeHistorical: boolean): Promise<NdcsForRxcuiResult> {
+    try {
+      const { rxcui, remap: rxcuiRemap } = await this.followRxcuiRemap(query);
+      const activeData = await this.makeRxNavRequest(`/rxcui/${rxcui}/ndcs.json`);
+      const activeNdcs: string[] = activeData?.ndcGroup?.ndcList?.ndc || [];
+
+      const historicalNdcs: Array<{
+        ndc: string,
+        rxcui: string,
+        relation: string,
+        startDate: string,
+        endDate: string,
+        active: boolean
+      }> = [];
+
+      if (includeHistorical) {
+        const historyData = await this.makeRxNavRequest(`/rxcui/${rxcui}/allhistoricalndcs.json`);
+        const activeSet = new Set(activeNdcs);
+
+        for (const group of historyData?.historicalNdcConcept?.historicalNdcTime || []) {
+          for (const ndcTime of group.ndcTime || []) {
+            for (const historicalNdc of ndcTime.ndc || []) {
+              historicalNdcs.push({
+                ndc: historicalNdc,
+                rxcui: group.rxcui,
+                relation: group.status, // "direct" or "indirect" (via a remapped concept)
+                startDate: ndcTime.startDate,
+                endDate: ndcTime.endDate,
+                active: activeSet.has(historicalNdc)
+              });
+            }
+          }
+        }
+      }
+
+      return {
+        query,
+        rxcui,
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        active_ndcs: activeNdcs,
+        historical_ndcs: historicalNdcs,
+        total_active: activeNdcs.length,
+        total_historical: historicalNdcs.length
+      };
+
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      console.error("Error getting NDCs for RxCUI:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get NDCs for RxCUI "${query}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getNdcProperties(ndc: string): Promise<NdcPropertiesResult> {
+    try {
+      const normalization = normalizeNdc(ndc);
+      if (!normalization) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `"${ndc}" is not a valid NDC (expected 10 or 11 digits, or 4-4-2, 5-3-2, 5-4-1 or 5-4-2 hyphenated form)`
+        );
+      }
+
+      const properties: Array<{
+        ndc11: string,
+        ndc10?: string,
+        rxcui: string,
+        labeler?: string,
+        marketing_status?: string,
+        marketing_category?: string,
+        marketing_start_date?: string,
+        packaging: string[],
+        spl_set_id?: string,
+        other_properties: Record<string, string>
+      }> = [];
+
+      for (const candidate of normalization.candidates) {
+        const data = await this.makeRxNavRequest(`/ndcproperties.json?id=${candidate}&ndcstatus=ALL`);
+
+        for (const item of data?.ndcPropertyList?.ndcProperty || []) {
+          const concepts: Record<string, string> = {};
+          for (const prop of item.propertyConceptList?.propertyConcept || []) {
+            concepts[prop.propName] = prop.propValue;
+          }
+
+          const { LABELER, MARKETING_STATUS, MARKETING_CATEGORY, MARKETING_EFFECTIVE_TIME_LOW, ...otherProperties } = concepts;
+
+          properties.push({
+            ndc11: item.ndcItem,
+            ndc10: item.ndc10,
+            rxcui: item.rxcui,
+            labeler: LABELER,
+            marketing_status: MARKETING_STATUS,
+            marketing_category: MARKETING_CATEGORY,
+            marketing_start_date: MARKETING_EFFECTIVE_TIME_LOW,
+            packaging: item.packagingList?.packaging || [],
+            spl_set_id: item.splSetIdItem,
+            other_properties: otherProperties
+          });
+        }
+
+        if (properties.length > 0) break;
+      }
+
+      return {
+        query: ndc,
+        normalization,
+        ...(properties.length === 0 && { message: "No properties found for the NDC" }),
+        properties,
+        total_found: properties.length
+      };
+
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      console.error("Error getting NDC properties:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get properties for NDC "${ndc}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Resolves a drug and searches OpenFDA labels by the product RxCUIs it
+   * covers. Labels only list clinical and branded products, so ingredients
+   * and brand names are first expanded to those.
+   */
+  private async findLabelsByRxcui(
+    drugIdentifier: string,
+    preferredTty: string | undefined,
+    limit: number,
+    requiredSection?: LabelSection
+  ) {
+    const resolved = await this.resolveToRxcui(drugIdentifier, preferredTty);
+    const lookup = {
+      query: drugIdentifier,
+      rxcui: resolved.rxcui,
+      ...(resolved.spellingCorrection && { spelling_correction: resolved.spellingCorrection }),
+      ...(resolved.remap && { rxcui_remap: resolved.remap }),
+      ...(resolved.resolution && { resolution: resolved.resolution }),
+      matched_by: 'openfda.rxcui' as const,
+      product_rxcuis: [] as string[],
+      total_product_rxcuis: 0
+    };
+    const noLabels: LabelSearchResult = { total: 0, results: [] };
+
+    if (!resolved.rxcui) {
+      return { lookup, message: this.unresolvedMessage(drugIdentifier), ...noLabels };
+    }
+
+    const propsData = await this.makeRxNavRequest(`/rxcui/${resolved.rxcui}/properties.json`);
+    const productRxcuis = LABELED_PRODUCT_TTYS.includes(propsData?.properties?.tty)
+      ? [resolved.rxcui]
+      : (await this.getRelatedConcepts(resolved.rxcui, LABELED_PRODUCT_TTYS)).map(c => c.rxcui);
+
+    lookup.product_rxcuis = productRxcuis.slice(0, MAX_LABEL_SEARCH_RXCUIS);
+    lookup.total_product_rxcuis = productRxcuis.length;
+
+    if (productRxcuis.length === 0) {
+      return { lookup, message: "No labeled products found for the drug", ...noLabels };
+    }
+
+    let search = buildRxcuiSearch(lookup.product_rxcuis);
+    if (requiredSection) {
+      search += ` AND _exists_:${requiredSection}`;
+    }
+
+    const { total, results } = await this.openFDA.searchLabels({ search, limit, skip: 0 });
+    return { lookup, message: undefined, total, results };
+  }
+
+  private async searchDrugLabels(drugIdentifier: string, preferredTty: string | undefined, limit: number): Promise<DrugLabelsResult> {
+    try {
+      const { lookup, message, total, results } = await this.findLabelsByRxcui(drugIdentifier, preferredTty, limit);
+
+      return {
+        ...lookup,
+        ...(total === 0 && { message: message || "No FDA label found for the drug" }),
+        total_results: total,
+        labels: results.map(summarizeLabel)
+      };
+
+    } catch (error) {
+      console.error("Error searching drug labels:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to search drug labels for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getLabelSection(
+    drugIdentifier: string,
+    section: LabelSection,
+    preferredTty: string | undefined,
+    limit: number
+  ): Promise<LabelSectionResult> {
+    try {
+      const { lookup, message, total, results } =
+        await this.findLabelsByRxcui(drugIdentifier, preferredTty, limit, section);
+
+      return {
+        ...lookup,
+        section,
+        ...(total === 0 && { message: message || `No FDA label with a ${section} section found for the drug` }),
+        total_results: total,
+        labels: results.map(result => ({
+          ...summarizeLabel(result),
+          text: result[section] || []
+        }))
+      };
+
+    } catch (error) {
+      console.error("Error getting label section:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get label section "${section}" for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getBoxedWarning(drugIdentifier: string, preferredTty: string | undefined, limit: number): Promise<BoxedWarningResult> {
+    try {
+      const { lookup, message, total, results } =
+        await this.findLabelsByRxcui(drugIdentifier, preferredTty, limit, 'boxed_warning');
+
+      return {
+        ...lookup,
+        has_boxed_warning: total > 0,
+        ...(total === 0 && { message: message || "No FDA label with a boxed warning found for the drug" }),
+        total_results: total,
+        boxed_warnings: results.map(result => ({
+          id: result.id,
+          set_id: result.set_id,
+          effective_time: result.effective_time,
+          brand_name: result.openfda?.brand_name?.[0] || "Unknown",
+          generic_name: result.openfda?.generic_name?.[0] || "Unknown",
+          manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
+          boxed_warning: result.boxed_warning || []
+        }))
+      };
+
+    } catch (error) {
+      console.error("Error getting boxed warning:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get boxed warning for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getEquivalentProducts(
+    drugIdentifier: string,
+    preferredTty: string | undefined,
+    includeNdcs: boolean,
+    maxGroups: number
+  ): Promise<EquivalentProductsResult> {
+    try {
+      const { rxcui, spellingCorrection, remap: rxcuiRemap, resolution } =
+        await this.resolveToRxcui(drugIdentifier, preferredTty);
+
+      if (!rxcui) {
+        return {
+          query: drugIdentifier,
+          message: this.unresolvedMessage(drugIdentifier),
+          groups: []
+        };
+      }
+
+      const propsData = await this.makeRxNavRequest(`/rxcui/${rxcui}/properties.json`);
+      const input: ProductConcept = {
+        rxcui,
+        name: propsData?.properties?.name || '',
+        termType: propsData?.properties?.tty || ''
+      };
+
+      // Ingredients, brand names and forms fan out to every SCD built from them;
+      // branded products and packs lead back to the SCDs they are versions of
+      const scds = input.termType === 'SCD'
+        ? [input]
+        : await this.getRelatedConcepts(rxcui, ['SCD']);
+
+      const groups: EquivalenceGroup[] = [];
+      for (const scd of scds) {
+        const related = await this.getRelatedConcepts(scd.rxcui, ['SBD', 'GPCK', 'BPCK']);
+        const brandedProducts = related.filter(c => c.termType === 'SBD');
+        const packs = related.filter(c => c.termType === 'GPCK' || c.termType === 'BPCK');
+
+        groups.push({
+          scd,
+          is_input_group: [scd, ...related].some(c => c.rxcui === rxcui),
+          branded_products: brandedProducts,
+          packs
+        });
+      }
+
+      groups.sort((a, b) =>
+        Number(b.is_input_group) - Number(a.is_input_group) || a.scd.name.localeCompare(b.scd.name)
+      );
+      const returnedGroups = groups.slice(0, maxGroups);
+
+      if (includeNdcs) {
+        for (const group of returnedGroups) {
+          for (const product of [group.scd, ...group.branded_products, ...group.packs]) {
+            const ndcData = await this.makeRxNavRequest(`/rxcui/${product.rxcui}/ndcs.json`);
+            product.ndcs = ndcData?.ndcGroup?.ndcList?.ndc || [];
+          }
+        }
+      }
+
+      const inputGroup = groups.find(g => g.is_input_group);
+
+      return {
+        query: drugIdentifier,
+        rxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        ...(resolution && { resolution }),
+        input,
+        // Ingredients and brand names span several groups without belonging to one
+        input_group_scd: inputGroup ? inputGroup.scd.rxcui : null,
+        groups: returnedGroups,
+        total_groups: groups.length,
+        truncated: groups.length > returnedGroups.length
+      };
+
+    } catch (error) {
+      console.error("Error getting equivalent products:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get equivalent products for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getRelatedConcepts(rxcui: string, ttys: string[]): Promise<ProductConcept[]> {
+    const relatedData = await this.makeRxNavRequest(`/rxcui/${rxcui}/related.json?tty=${ttys.join('+')}`);
+    const concepts: ProductConcept[] = [];
+
+    for (const group of relatedData?.relatedGroup?.conceptGroup || []) {
+      for (const concept of group.conceptProperties || []) {
+        if (!concepts.some(c => c.rxcui === concept.rxcui)) {
+          concepts.push({ rxcui: concept.rxcui, name: concept.name, termType: concept.tty });
+        }
+      }
+    }
+
+    return concepts;
+  }
+
+  // Every concept related to an RxCUI, grouped by term type; null for an unknown RxCUI
+  private async getRelatedConceptGroups(rxcui: string): Promise<RelatedConcepts | null> {
+    const status = await this.lookupRxcuiStatus(rxcui);
+    if (status.status === 'unknown') return null;
+
+    // Retired concepts have no relationships left; use the concept they were remapped to, as the tools do
+    const { rxcui: target, remap } = await this.followRxcuiRemap(rxcui);
+    const data = await this.makeRxNavRequest(`/rxcui/${target}/allrelated.json`);
+    const groups = (data?.allRelatedGroup?.conceptGroup || [])
+      .filter((group: any) => group.conceptProperties?.length > 0)
+      .map((group: any) => ({
+        termType: group.tty,
+        label: termTypeLabel(group.tty),
+        concepts: group.conceptProperties.map((concept: any) => ({
+          rxcui: concept.rxcui,
+          name: concept.name,
+          termType: concept.tty
+        }))
+      }));
+
+    return {
+      rxcui: target,
+      name: remap ? remap.remapped_to[0].name : status.name,
+      ...(remap && { rxcui_remap: remap }),
+      groups: sortRelatedGroups(groups),
+      total_found: groups.reduce((sum: number, group: any) => sum + group.concepts.length, 0)
+    };
+  }
+
+  private async mapRxcuiToCodes(query: string, systems: CodeSystem[]): Promise<MapIdentifierResult> {
+    try {
+      const { rxcui, remap: rxcuiRemap } = await this.followRxcuiRemap(query);
+
+      const propsData = await this.makeRxNavRequest(`/rxcui/${rxcui}/properties.json`);
+      const concept = propsData?.properties;
+
+      if (!concept) {
+        return {
+          query,
+          message: "No RxNorm concept found for the RxCUI",
+          mappings: []
+        };
+      }
+
+      const codesData = await this.makeRxNavRequest(`/rxcui/${rxcui}/allProperties.json?prop=codes`);
+      const mappings: SourceCodeMapping[] = [];
+
+      for (const prop of codesData?.propConceptGroup?.propConcept || []) {
+        const system = systems.find(s => CODE_SYSTEMS[s].idType === prop.propName);
+        if (!system) continue;
+
+        mappings.push({
+          rxcui,
+          name: concept.name,
+          termType: concept.tty,
+          source: CODE_SYSTEMS[system].sab,
+          code: prop.propValue
+        });
+      }
+
+      const uniqueMappings = mappings.filter((mapping, index, self) =>
+        index === self.findIndex(m => m.source === mapping.source && m.code === mapping.code)
+      );
+
+      const bySource: Record<string, number> = {};
+      for (const system of systems) {
+        bySource[system] = uniqueMappings.filter(m => m.source === CODE_SYSTEMS[system].sab).length;
+      }
+
+      return {
+        query,
+        rxcui,
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        name: concept.name,
+        termType: concept.tty,
+        mappings: uniqueMappings,
+        by_source: bySource,
+        total_found: uniqueMappings.length
+      };
+
+    } catch (error) {
+      console.error("Error mapping RxCUI to source codes:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to map RxCUI "${query}" to source codes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async mapCodeToRxcuis(system: CodeSystem, code: string): Promise<MapIdentifierResult> {
+    const { idType, sab } = CODE_SYSTEMS[system];
+
+    try {
+      const idData = await this.makeRxNavRequest(
+        `/rxcui.json?idtype=${idType}&id=${encodeURIComponent(code.trim())}`
+      );
+      const mappings: SourceCodeMapping[] = [];
+
+      for (const rxcui of idData?.idGroup?.rxnormId || []) {
+        const propsData = await this.makeRxNavRequest(`/rxcui/${rxcui}/properties.json`);
+        mappings.push({
+          rxcui,
+          name: propsData?.properties?.name || '',
+          termType: propsData?.properties?.tty || '',
+          source: sab,
+          code: code.trim()
+        });
+      }
+
+      return {
+        query: code,
+        source: sab,
+        code: code.trim(),
+        ...(mappings.length === 0 && { message: `No RxCUI found for the ${CODE_SYSTEMS[system].label} code` }),
+        mappings,
+        total_found: mappings.length
+      };
+
+    } catch (error) {
+      console.error("Error mapping source code to RxCUI:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to map ${CODE_SYSTEMS[system].label} code "${code}" to RxCUI: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getRxcuiStatus(rxcui: string): Promise<RxcuiStatusResult> {
+    try {
+      const status = await this.lookupRxcuiStatus(rxcui);
+
+      return {
+        query: rxcui,
+        ...status
+      };
+
+    } catch (error) {
+      console.error("Error getting RxCUI status:", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get status for RxCUI "${rxcui}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async lookupRxcuiStatus(rxcui: string): Promise<RxcuiStatus> {
+    const data = await this.makeRxNavRequest(`/rxcui/${rxcui}/historystatus.json`);
+    const history = data?.rxcuiStatusHistory || {};
+    const metaData = history.metaData || {};
+    const attributes = history.attributes || {};
+    const derived = history.derivedConcepts || {};
+    const rxnavStatus: string = metaData.status || 'UNKNOWN';
+
+    const remappedTo = [
+      ...(derived.remappedConcept || []).map((concept: any) => ({
+        rxcui: concept.remappedRxCui,
+        name: concept.remappedName,
+        termType: concept.remappedTTY
+      })),
+      ...(derived.quantifiedConcept || []).map((concept: any) => ({
+        rxcui: concept.quantifiedRxcui,
+        name: concept.quantifiedName,
+        termType: concept.quantifiedTTY
+      }))
+    ].filter(concept => concept.rxcui);
+
+    return {
+      rxcui,
+      status: RXCUI_STATUS_CODES[rxnavStatus.toUpperCase()] || 'unknown',
+      rxnav_status: rxnavStatus,
+      is_current: metaData.isCurrent === 'YES',
+      name: attributes.name || null,
+      termType: attributes.tty || null,
+      source: metaData.source || null,
+      release_start_date: metaData.releaseStartDate || null,
+      release_end_date: metaData.releaseEndDate || null,
+      active_start_date: metaData.activeStartDate || null,
+      active_end_date: metaData.activeEndDate || null,
+      remapped_date: metaData.remappedDate || null,
+      remapped_to: remappedTo
+    };
+  }
+
+  /**
+   * Follows a caller-supplied RxCUI to the first concept it was remapped or
+   * quantified to, since relationship lookups on retired concepts come back
+   * empty. If the status cannot be fetched the RxCUI is used as given.
+   */
+  private async followRxcuiRemap(rxcui: string): Promise<{ rxcui: string; remap?: RxcuiRemap }> {
+    let status: RxcuiStatus;
+    try {
+      status = await this.lookupRxcuiStatus(rxcui);
+    } catch (error) {
+      this.log('warn', `RxCUI status lookup failed for ${rxcui}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { rxcui };
+    }
+
+    if ((status.status !== 'remapped' && status.status !== 'quantified') || status.remapped_to.length === 0) {
+      return { rxcui };
+    }
+
+    const target = status.remapped_to[0];
+    return {
+      rxcui: target.rxcui,
+      remap: {
+        original_rxcui: rxcui,
+        status: status.status,
+        followed_rxcui: target.rxcui,
+        remapped_to: status.remapped_to,
+        message: `RxCUI ${rxcui} is ${status.status}; results are for ${target.rxcui} (${target.name})`
+      }
+    };
+  }
+
+  /**
+   * Turns a drug name, RxCUI or NDC into an RxCUI. Names go through the
+   * ranked resolver; RxCUIs are followed to their remapped concept when they
+   * have been retired.
+   */
+  private async resolveToRxcui(drugIdentifier: string, preferredTty?: string): Promise<{
+    rxcui: string | null;
+    spellingCorrection?: SpellingCorrection;
+    remap?: RxcuiRemap;
+    resolution?: NameResolution;
+  }> {
+    switch (this.detectIdentifierKind(drugIdentifier)) {
+      case 'rxcui':
+        return this.followRxcuiRemap(drugIdentifier.trim());
+
+      case 'ndc':
+        const ndcStatus = await this.lookupNdcStatus(drugIdentifier);
+        return { rxcui: ndcStatus?.rxcui || null };
+
+      default:
+        const { resolution, spellingCorrection } = await this.resolveDrugName(drugIdentifier, preferredTty);
+        return { rxcui: resolution?.rxcui || null, spellingCorrection, resolution: resolution || undefined };
+    }
+  }
+
+  private unresolvedMessage(drugIdentifier: string): string {
+    return this.detectIdentifierKind(drugIdentifier) === 'ndc'
+      ? "No RxCUI found for the NDC"
+      : "No drug found matching the identifier";
+  }
+
+  /**
+   * Ranks every concept a name could refer to: exact name matches of any
+   * term type (from `/rxcui.json`) plus the products `/drugs.json` returns.
+   * Candidates are scored by exact match, term type preference and
+   * suppression status, and a caller-preferred term type outranks the rest.
+   */
+  private async resolveDrugName(drugName: string, preferredTty?: string): Promise<{
+    resolution: NameResolution | null;
+    spellingCorrection?: SpellingCorrection;
+  }> {
+    let term = drugName.trim();
+    let spellingCorrection: SpellingCorrection | undefined;
+    let exactRxcuis = await this.getExactMatchRxcuis(term);
+    let drugData: any;
+
+    if (exactRxcuis.length > 0) {
+      drugData = await this.makeRxNavRequest(`/drugs.json?name=${encodeURIComponent(term)}`);
+    } else {
+      // Nothing carries this exact name, so let the spelling fallback pick the term
+      const search = await this.searchDrugs(term);
+      drugData = search.data;
+      spellingCorrection = search.spellingCorrection;
+      if (spellingCorrection) {
+        term = spellingCorrection.corrected;
+        exactRxcuis = await this.getExactMatchRxcuis(term);
+      }
+    }
+
+    const candidates = new Map<string, { rxcui: string; name: string; termType: string; suppress: string; synonym?: string }>();
+
+    for (const rxcui of exactRxcuis) {
+      const propsData = await this.makeRxNavRequest(`/rxcui/${rxcui}/properties.json`);
+      const props = propsData?.properties;
+      if (props) {
+        candidates.set(rxcui, { rxcui, name: props.name, termType: props.tty, suppress: props.suppress || 'N', synonym: props.synonym });
+      }
+    }
+
+    for (const group of drugData?.drugGroup?.conceptGroup || []) {
+      for (const concept of group.conceptProperties || []) {
+        if (!candidates.has(concept.rxcui)) {
+          candidates.set(concept.rxcui, {
+            rxcui: concept.rxcui,
+            name: concept.name,
+            termType: concept.tty,
+            suppress: concept.suppress || 'N',
+            synonym: concept.synonym
+          });
+        }
+      }
+    }
+
+    const ranked: RankedCandidate[] = [...candidates.values()]
+      .map(candidate => {
+        const exactMatch = [candidate.name, candidate.synonym]
+          .some(name => !!name && name.toLowerCase() === term.toLowerCase());
+        return {
+          rxcui: candidate.rxcui,
+          name: candidate.name,
+          termType: candidate.termType,
+          suppress: candidate.suppress,
+          exact_match: exactMatch,
+          score: this.scoreCandidate(candidate.termType, candidate.suppress, exactMatch, preferredTty)
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.name.length - b.name.length || Number(a.rxcui) - Number(b.rxcui));
+
+    if (ranked.length === 0) {
+      return { resolution: null, spellingCorrection };
+    }
+
+    const [best, ...rest] = ranked;
+    return {
+      resolution: {
+        ...best,
+        ...(preferredTty && { preferred_tty: preferredTty }),
+        // Tied top scores mean the name alone does not pick one concept
+        ambiguous: rest.length > 0 && rest[0].score === best.score,
+        alternatives: rest.slice(0, MAX_RESOLUTION_ALTERNATIVES)
+      },
+      spellingCorrection
+    };
+  }
+
+  private async getExactMatchRxcuis(term: string): Promise<string[]> {
+    const idData = await this.makeRxNavRequest(`/rxcui.json?name=${encodeURIComponent(term)}&search=2`);
+    return idData?.idGroup?.rxnormId || [];
+  }
+
+  private scoreCandidate(termType: string, suppress: string, exactMatch: boolean, preferredTty?: string): number {
+    let score = 0;
+
+    if (preferredTty && termType === preferredTty.toUpperCase()) score += 200;
+    if (exactMatch) score += 100;
+
+    // IN 50, MIN 40, BN 30, SCD 20, SBD 10, other term types 0
+    const preference = TTY_PREFERENCE.indexOf(termType);
+    if (preference >= 0) score += (TTY_PREFERENCE.length - preference) * 10;
+
+    // Suppressed and obsolete concepts only win when nothing else matches
+    if (suppress && suppress !== 'N') score -= 150;
+
+    return score;
+  }
+
+  private async getDrugClasses(drugIdentifier: string, systems: ClassSystem[], preferredTty?: string): Promise<DrugClassesResult> {
+    try {
+      const { rxcui, spellingCorrection, remap: rxcuiRemap, resolution } =
+        await this.resolveToRxcui(drugIdentifier, preferredTty);
+
+      if (!rxcui) {
+        return {
+          query: drugIdentifier,
+          message: "No drug found matching the identifier",
+          classes: []
+        };
+      }
+
+      const failedSystems: Array<{ system: ClassSystem; error: string }> = [];
+
+      const classesBySystem = await mapConcurrent(systems, CLASS_LOOKUP_CONCURRENCY, async (system): Promise<DrugClass[]> => {
+        const { relaSource, relas } = CLASS_SYSTEMS[system];
+        const relaParam = relas.length > 0 ? `&relas=${relas.join('+')}` : '';
+
+        try {
+          const data = await this.makeRxNavRequest(
+            `/rxclass/class/byRxcui.json?rxcui=${rxcui}&relaSource=${relaSource}${relaParam}`
+          );
+
+          return (data?.rxclassDrugInfoList?.rxclassDrugInfo || []).map((info: any) => ({
+            class_id: info.rxclassMinConceptItem?.classId,
+            class_name: info.rxclassMinConceptItem?.className,
+            class_type: info.rxclassMinConceptItem?.classType,
+            system,
+            rela: info.rela || '',
+            rela_source: info.relaSource,
+            drug: {
+              rxcui: info.minConcept?.rxcui,
+              name: info.minConcept?.name,
+              termType: info.minConcept?.tty
             }
-          }
+          }));
+        } catch (error) {
+          // Continue if one class system lookup fails
+          failedSystems.push({ system, error: error instanceof Error ? error.message : String(error) });
+          return [];
         }
-      }
-      
-      // Remove duplicates
-      const uniqueATCCodes = atcCodes.filter((code, index, self) => 
-        index === self.findIndex(c => c.code === code.code)
+      });
+      const classes = classesBySystem.flat();
+      failedSystems.sort((a, b) => systems.indexOf(a.system) - systems.indexOf(b.system));
+
+      // The same class is often reached through several ingredients or relations
+      const uniqueClasses = classes.filter((cls, index, self) =>
+        index === self.findIndex(c =>
+          c.class_id === cls.class_id && c.rela === cls.rela && c.rela_source === cls.rela_source
+        )
       );
-      
+
+      const bySystem: Record<string, number> = {};
+      for (const system of systems) {
+        bySystem[system] = uniqueClasses.filter(c => c.system === system).length;
+      }
+
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query: drugIdentifier,
-              rxcui: rxcui,
-              atc_codes: uniqueATCCodes,
-              total_found: uniqueATCCodes.length
-            }, null, 2)
-          }
-        ]
+        query: drugIdentifier,
+        rxcui,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        ...(rxcuiRemap && { rxcui_remap: rxcuiRemap }),
+        ...(resolution && { resolution }),
+        classes: uniqueClasses,
+        by_system: bySystem,
+        ...(failedSystems.length > 0 && { failed_systems: failedSystems }),
+        total_found: uniqueClasses.length
       };
-      
+
     } catch (error) {
-      console.error("Error getting ATC classification:", error);
+      console.error("Error getting drug classes:", error);
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to get ATC classification for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get drug classes for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  private getATCLevel(atcCode: string): number {
-    // ATC codes have different levels based on their length
-    // Level 1: 1 character (Anatomical main group)
-    // Level 2: 2 characters (Therapeutic subgroup)
-    // Level 3: 3 characters (Pharmacological subgroup)
-    // Level 4: 4 characters (Chemical subgroup)
-    // Level 5: 7 characters (Chemical substance)
-    
-    if (!atcCode) return 0;
-    
-    const length = atcCode.length;
-    if (length === 1) return 1;
-    if (length === 2) return 2;
-    if (length === 3) return 3;
-    if (length === 4) return 4;
-    if (length === 7) return 5;
-    
-    return 0; // Unknown level
-  }
+  private async getClassMembers(classId: string, system: ClassSystem, ttys: string[]): Promise<ClassMembersResult> {
+    try {
+      const { relaSource, relas } = CLASS_SYSTEMS[system];
+      const baseParams = [
+        `classId=${encodeURIComponent(classId)}`,
+        `relaSource=${relaSource}`,
+        ...(ttys.length > 0 ? [`ttys=${ttys.map(encodeURIComponent).join('+')}`] : [])
+      ];
 
-  private getATCLevelName(level: number): string {
-    switch (level) {
-      case 1: return "Anatomical main group";
-      case 2: return "Therapeutic subgroup";
-      case 3: return "Pharmacological subgroup";
-      case 4: return "Chemical subgroup";
-      case 5: return "Chemical substance";
-      default: return "Unknown level";
-    }
-  }
+      // classMembers takes a single rela, so each relationship is its own request
+      const requests = relas.length > 0
+        ? relas.map(rela => [...baseParams, `rela=${rela}`])
+        : [baseParams];
+      const responses = await mapConcurrent(requests, CLASS_LOOKUP_CONCURRENCY, params =>
+        this.makeRxNavRequest(`/rxclass/classMembers.json?${params.join('&')}`)
+      );
 
-  private async getDrugIngredients(drugIdentifier: string) {
-    try {
-      // First, try to get RxCUI if drugIdentifier is a drug name
-      let rxcui = drugIdentifier;
-      
-      // Check if drugIdentifier is already an RxCUI (numeric)
-      if (!/^\d+$/.test(drugIdentifier)) {
-        // It's a drug name, need to find RxCUI first
-        const searchEndpoint = `/drugs.json?name=${encodeURIComponent(drugIdentifier)}`;
-        const searchData = await this.makeRxNavRequest(searchEndpoint);
-        
-        if (!searchData.drugGroup || !searchData.drugGroup.conceptGroup) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  query: drugIdentifier,
-                  message: "No drug found matching the identifier",
-                  ingredients: []
-                }, null, 2)
-              }
-            ]
-          };
-        }
-        
-        // Get the first available RxCUI
-        for (const group of searchData.drugGroup.conceptGroup) {
-          if (group.conceptProperties && group.conceptProperties.length > 0) {
-            rxcui = group.conceptProperties[0].rxcui;
-            break;
-          }
-        }
-      }
-      
-      // Get related ingredients (IN = Ingredient, PIN = Precise Ingredient)
-      const relatedEndpoint = `/rxcui/${rxcui}/related.json?tty=IN+PIN`;
-      const relatedData = await this.makeRxNavRequest(relatedEndpoint);
-      
-      const ingredients: Array<{
-        rxcui: string, 
-        name: string, 
-        termType: string,
-        strength?: string,
-        dosageForm?: string
-      }> = [];
-      
-      if (relatedData.relatedGroup && relatedData.relatedGroup.conceptGroup) {
-        for (const group of relatedData.relatedGroup.conceptGroup) {
-          if (group.conceptProperties) {
-            for (const concept of group.conceptProperties) {
-              const ingredient: {
-                rxcui: string, 
-                name: string, 
-                termType: string,
-                strength?: string,
-                dosageForm?: string
-              } = {
-                rxcui: concept.rxcui,
-                name: concept.name,
-                termType: concept.tty
-              };
-              
-              // Try to get additional properties like strength
-              try {
-                const propsEndpoint = `/rxcui/${concept.rxcui}/allProperties.json?prop=all`;
-                const propsData = await this.makeRxNavRequest(propsEndpoint);
-                
-                if (propsData.propConceptGroup && propsData.propConceptGroup.propConcept) {
-                  for (const prop of propsData.propConceptGroup.propConcept) {
-                    if (prop.propName === 'Strength') {
-                      ingredient.strength = prop.propValue;
-                    } else if (prop.propName === 'Dose Form') {
-                      ingredient.dosageForm = prop.propValue;
-                    }
-                  }
-                }
-              } catch (error) {
-                // Continue if properties lookup fails
-                console.log(`Failed to get properties for ingredient ${concept.rxcui}: ${error}`);
-              }
-              
-              ingredients.push(ingredient);
-            }
-          }
-        }
-      }
-      
-      // If no ingredients found through related concepts, try to get them through allRelated
-      if (ingredients.length === 0) {
-        const allRelatedEndpoint = `/rxcui/${rxcui}/allrelated.json`;
-        const allRelatedData = await this.makeRxNavRequest(allRelatedEndpoint);
-        
-        if (allRelatedData.allRelatedGroup && allRelatedData.allRelatedGroup.conceptGroup) {
-          for (const group of allRelatedData.allRelatedGroup.conceptGroup) {
-            if ((group.tty === 'IN' || group.tty === 'PIN') && group.conceptProperties) {
-              for (const concept of group.conceptProperties) {
-                ingredients.push({
-                  rxcui: concept.rxcui,
-                  name: concept.name,
-                  termType: concept.tty
-                });
-              }
-            }
-          }
+      const members: Array<{rxcui: string, name: string, termType: string, sourceId?: string}> = [];
+
+      for (const data of responses) {
+        for (const member of data?.drugMemberGroup?.drugMember || []) {
+          const rxcui = member.minConcept?.rxcui;
+          // A drug reached through several relationships is listed once
+          if (members.some(m => m.rxcui === rxcui)) continue;
+
+          const sourceId = (member.nodeAttr || []).find((attr: any) => attr.attrName === 'SourceId')?.attrValue;
+          members.push({
+            rxcui,
+            name: member.minConcept?.name,
+            termType: member.minConcept?.tty,
+            ...(sourceId && { sourceId })
+          });
         }
       }
-      
-      // Remove duplicates based on rxcui
-      const uniqueIngredients = ingredients.filter((ingredient, index, self) => 
-        index === self.findIndex(i => i.rxcui === ingredient.rxcui)
-      );
-      
+
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query: drugIdentifier,
-              rxcui: rxcui,
-              ingredients: uniqueIngredients,
-              total_found: uniqueIngredients.length
-            }, null, 2)
-          }
-        ]
+        class_id: classId,
+        class_system: system,
+        rela_source: relaSource,
+        ttys,
+        members,
+        total_found: members.length
       };
-      
+
     } catch (error) {
-      console.error("Error getting drug ingredients:", error);
+      console.error("Error getting class members:", error);
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to get ingredients for "${drugIdentifier}": ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get members of class "${classId}": ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  private async searchDrugByName(drugName: string, limit: number) {
+  private async searchDrugByName(drugName: string, limit: number): Promise<DrugSearchResult> {
     try {
       // Use RxNav drugs API to search for drug by name
-      const endpoint = `/drugs.json?name=${encodeURIComponent(drugName)}`;
-      const data = await this.makeRxNavRequest(endpoint);
+      const { data, spellingCorrection } = await this.searchDrugs(drugName);
       
       if (!data.drugGroup || !data.drugGroup.conceptGroup) {
         return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                query: drugName,
-                message: "No drugs found matching the search criteria",
-                results: []
-              }, null, 2)
-            }
-          ]
+          query: drugName,
+          message: "No drugs found matching the search criteria",
+          results: []
         };
       }
 
@@ -994,17 +2554,11 @@ class RxNavServer {
       const limitedResults = results.slice(0, limit);
 
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query: drugName,
-              total_found: results.length,
-              returned_count: limitedResults.length,
-              results: limitedResults
-            }, null, 2)
-          }
-        ]
+        query: drugName,
+        ...(spellingCorrection && { spelling_correction: spellingCorrection }),
+        total_found: results.length,
+        returned_count: limitedResults.length,
+        results: limitedResults
       };
       
     } catch (error) {
@@ -1016,7 +2570,7 @@ class RxNavServer {
     }
   }
 
-  private async aePipelineRag(params: AEPipelineRAGParams): Promise<{ content: Array<{ type: string; text: string }> }> {
+  private async aePipelineRag(params: AEPipelineRAGParams): Promise<RAGResult> {
     try {
       // 1. 确定要执行的查询类型和参数
       const drugName = params.drug || params.query;
@@ -1027,137 +2581,125 @@ class RxNavServer {
           drug: params.drug,
           condition: params.condition,
           top_chunks: [],
-          summary: "请提供药物名称或具体查询以获取 RxNav 术语信息。",
+          summary: message(params.language, 'noInput'),
           citations: []
         };
         
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        return result;
       }
 
-      // 2. 收集多种类型的药物信息
-      const allData: Array<{ type: string; data: any }> = [];
-      
-      try {
-        // 搜索基本药物信息
-        const searchResult = await this.searchDrugByName(drugName, Math.min(params.filters?.limit || 20, 20));
-        allData.push({ type: 'search', data: searchResult });
-      } catch (error) {
-        this.log('warn', 'Failed to search drug by name', { drugName, error });
-      }
-      
-      try {
-        // 获取通用名
-        const genericResult = await this.getGenericName(drugName);
-        allData.push({ type: 'generic', data: genericResult });
-      } catch (error) {
-        this.log('warn', 'Failed to get generic name', { drugName, error });
-      }
-      
-      try {
-        // 获取品牌名（如果输入的是通用名）
-        const brandResult = await this.getBrandNames(drugName);
-        allData.push({ type: 'brand', data: brandResult });
-      } catch (error) {
-        this.log('warn', 'Failed to get brand names', { drugName, error });
-      }
-      
-      try {
-        // 获取 ATC 分类
-        const atcResult = await this.getATCClassification(drugName);
-        allData.push({ type: 'atc', data: atcResult });
-      } catch (error) {
-        this.log('warn', 'Failed to get ATC classification', { drugName, error });
-      }
-      
-      try {
-        // 获取成分信息
-        const ingredientsResult = await this.getDrugIngredients(drugName);
-        allData.push({ type: 'ingredients', data: ingredientsResult });
-      } catch (error) {
-        this.log('warn', 'Failed to get drug ingredients', { drugName, error });
-      }
+      // 2. 只解析一次 RxCUI，之后的查询直接使用它；时间预算从解析开始计算
+      const startedAt = Date.now();
+      const resolution = this.resolveToRxcui(drugName).then(
+        resolved => resolved.rxcui,
+        error => {
+          // 解析失败时各数据源退回按名称查询，由它们各自报告错误
+          this.log('warn', 'Failed to resolve drug for RAG', { drugName, error: error instanceof Error ? error.message : String(error) });
+          return null;
+        }
+      );
 
-      if (allData.length === 0) {
+      let timer: NodeJS.Timeout | undefined;
+      const deadline = new Promise<undefined>(resolve => { timer = setTimeout(() => resolve(undefined), params.deadline_ms); });
+      const resolved = await Promise.race([resolution, deadline]);
+      clearTimeout(timer);
+
+      const rxcui = resolved ?? null;
+      const identifier = rxcui || drugName;
+
+      // 3. 并发收集多种类型的药物信息；名称搜索和品牌名本身按名称查询，其请求与上面的解析共享缓存
+      const sources: RAGSource[] = [
+        { type: 'search', run: () => this.searchDrugByName(drugName, Math.min(params.filters?.limit || 20, 20)) },
+        { type: 'generic', run: () => this.getGenericName(identifier) },
+        { type: 'brand', run: () => this.getBrandNames(drugName) },
+        { type: 'atc', run: () => this.getATCClassification(identifier) },
+        { type: 'ingredients', run: () => this.getDrugIngredients(identifier) },
+      ];
+
+      // 解析已用完预算时不再启动任何数据源，全部记为 skipped
+      const { data: allData, timings } = resolved === undefined
+        ? { data: [], timings: sources.map((source): RAGSourceTiming => ({ type: source.type, status: 'skipped', duration_ms: 0 })) }
+        : await this.runRagSources(sources, params.deadline_ms - (Date.now() - startedAt));
+      // 数据源成功但没有任何记录（例如药物不存在）不算检索到数据
+      const sourceRecords = allData
+        .map(item => ({ type: item.type, records: this.rxnavRecords(item) }))
+        .filter(item => item.records.length > 0);
+      const diagnostics = {
+        rxcui,
+        partial: timings.some(timing => timing.status !== 'ok'),
+        elapsed_ms: Date.now() - startedAt,
+        sources: timings
+      };
+
+      if (sourceRecords.length === 0) {
         const result: RAGResult = {
           source: "rxnav",
           query: params.query,
           drug: params.drug,
           condition: params.condition,
           top_chunks: [],
-          summary: `未找到药物 "${drugName}" 的相关信息。请检查药物名称拼写或尝试其他名称。`,
-          citations: []
+          // 超时时药物未必不存在，提示放宽时间预算而不是检查拼写
+          summary: timings.some(timing => timing.status === 'timeout' || timing.status === 'skipped')
+            ? message(params.language, 'deadlineExceeded', drugName)
+            : message(params.language, 'drugNotFound', drugName),
+          citations: [],
+          ...diagnostics
         };
         
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        return result;
       }
 
-      // 3. 提取和分块文本
+      // 4. 按记录分块，每个概念、ATC 代码或成分各成一块
       const allChunks: TextChunk[] = [];
       
-      for (const item of allData) {
-        const itemText = this.extractRxNavText(item);
-        if (itemText.trim().length > 0) {
-          const sourceId = `${item.type}_${Math.random().toString(36).substr(2, 9)}`;
-          
-          const chunks = chunkText(
-            itemText,
-            800,  // RxNav 数据通常较短，使用较小的块
-            150,
-            sourceId,
-            {
-              type: item.type,
-              drugName: drugName,
-              hasRxCUI: itemText.includes('rxcui'),
-              hasATC: itemText.includes('ATC') || /[A-Z]\d{2}[A-Z]{2}\d{2}/.test(itemText)
-            }
-          );
-          
-          allChunks.push(...chunks);
-        }
+      for (const item of sourceRecords) {
+        const sourceId = `${item.type}_${Math.random().toString(36).substr(2, 9)}`;
+        allChunks.push(...chunkRecords(item.records, sourceId, {
+          type: item.type,
+          drugName: drugName
+        }));
       }
 
-      // 4. 构建查询关键词
+      // 5. 构建查询关键词
       const queryText = [params.query, params.drug, params.condition]
         .filter(Boolean)
         .join(' ');
       
       const extraKeywords = [
-        'rxcui', 'atc', 'generic', 'brand', 'ingredient', 'classification',
+        'rxcui', 'atc', 'generic', 'brand', 'ingredient', 'classification', 'class',
         'therapeutic', 'anatomical', 'chemical', 'substance',
         '通用名', '商品名', '成分', '分类', '治疗'
       ];
 
-      // 5. 检索和排序
-      const topChunks = rankAndPickTop(
+      // 6. 检索和排序，同一来源中相互重叠的块合并为连续片段
+      const topChunks = mergeOverlappingChunks(rankAndPickTop(
         allChunks,
         queryText,
         params.top_k,
-        extraKeywords
-      );
+        extraKeywords,
+        {
+          method: params.ranking,
+          boosts: RAG_METADATA_BOOSTS,
+          diversity: RAG_DIVERSITY,
+          maxPerSource: RAG_MAX_CHUNKS_PER_SOURCE
+        }
+      ));
 
-      // 6. 生成摘要
+      // 7. 生成摘要
       const summary = summarizeChunks(topChunks, {
         source: 'rxnav',
         query: params.query,
         drug: params.drug,
         condition: params.condition,
-        maxLength: 1200
+        // 双语摘要的标题和说明文字约为单语的两倍
+        maxLength: params.language === 'bilingual' ? 2000 : 1200,
+        language: params.language
       });
 
-      // 7. 提取引用
+      // 8. 提取引用
       const citations = extractCitations(topChunks);
 
-      // 8. 构建结果
+      // 9. 构建结果
       const result: RAGResult = {
         source: "rxnav",
         query: params.query,
@@ -1168,15 +2710,11 @@ class RxNavServer {
           text: chunk.text.length > 1000 ? chunk.text.slice(0, 1000) + '...' : chunk.text
         })),
         summary,
-        citations
+        citations,
+        ...diagnostics
       };
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2)
-        }]
-      };
+      return result;
       
     } catch (error) {
       this.log('error', 'Error in ae_pipeline_rag', { error });
@@ -1187,95 +2725,168 @@ class RxNavServer {
     }
   }
 
-  private extractRxNavText(item: { type: string; data: any }): string {
-    const textParts: string[] = [];
-    
-    try {
-      // 解析返回的内容
-      const content = item.data?.content?.[0]?.text;
-      if (!content) return '';
-      
-      let parsedData;
+  /**
+   * 以 RAG_SOURCE_CONCURRENCY 为上限并发执行各数据源，超过 `deadlineMs`
+   * 后不再等待：已完成的结果照常返回，未完成的记为 timeout，尚未开始的记为
+   * skipped。超时的请求仍会在后台完成并写入缓存。
+   */
+  private async runRagSources(
+    sources: RAGSource[],
+    deadlineMs: number
+  ): Promise<{ data: RAGSourceData[]; timings: RAGSourceTiming[] }> {
+    const results: Array<RAGSourceData | undefined> = [];
+    const timings: RAGSourceTiming[] = sources.map(source => ({ type: source.type, status: 'skipped', duration_ms: 0 }));
+    const startTimes: number[] = [];
+    let expired = false;
+
+    const work = mapConcurrent(sources, RAG_SOURCE_CONCURRENCY, async (source, index) => {
+      if (expired) return;
+      startTimes[index] = Date.now();
+
       try {
-        parsedData = JSON.parse(content);
-      } catch {
-        return content; // 如果不是 JSON，直接返回文本
+        const data = await source.run();
+        if (expired) return;
+        results[index] = { type: source.type, data } as RAGSourceData;
+        timings[index] = { type: source.type, status: 'ok', duration_ms: Date.now() - startTimes[index] };
+      } catch (error) {
+        if (expired) return;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.log('warn', `RAG source failed: ${source.type}`, { error: errorMessage });
+        timings[index] = { type: source.type, status: 'error', duration_ms: Date.now() - startTimes[index], error: errorMessage };
       }
-      
-      textParts.push(`=== ${item.type.toUpperCase()} INFORMATION ===`);
-      
-      switch (item.type) {
-        case 'search':
-          if (parsedData.results && Array.isArray(parsedData.results)) {
-            textParts.push(`Query: ${parsedData.query}`);
-            textParts.push(`Total Found: ${parsedData.total_found}`);
-            parsedData.results.forEach((result: any, idx: number) => {
-              textParts.push(`${idx + 1}. RxCUI: ${result.rxcui}, Name: ${result.name}, Type: ${result.termType}`);
-            });
-          }
-          break;
-          
-        case 'generic':
-          if (parsedData.generic_names && Array.isArray(parsedData.generic_names)) {
-            textParts.push(`Query: ${parsedData.query}`);
-            textParts.push(`RxCUI: ${parsedData.rxcui}`);
-            parsedData.generic_names.forEach((generic: any, idx: number) => {
-              textParts.push(`${idx + 1}. Generic Name: ${generic.name}, RxCUI: ${generic.rxcui}, Type: ${generic.termType}`);
-            });
-          }
-          break;
-          
-        case 'brand':
-          if (parsedData.brand_names && Array.isArray(parsedData.brand_names)) {
-            textParts.push(`Query: ${parsedData.query}`);
-            textParts.push(`Generic RxCUI: ${parsedData.generic_rxcui}`);
-            parsedData.brand_names.forEach((brand: any, idx: number) => {
-              textParts.push(`${idx + 1}. Brand Name: ${brand.name}, RxCUI: ${brand.rxcui}, Type: ${brand.termType}`);
-            });
-          }
-          break;
-          
-        case 'atc':
-          if (parsedData.atc_codes && Array.isArray(parsedData.atc_codes)) {
-            textParts.push(`Query: ${parsedData.query}`);
-            textParts.push(`RxCUI: ${parsedData.rxcui}`);
-            parsedData.atc_codes.forEach((atc: any, idx: number) => {
-              textParts.push(`${idx + 1}. ATC Code: ${atc.code}, Level: ${atc.level}, Description: ${atc.name}`);
-            });
-          }
-          break;
-          
-        case 'ingredients':
-          if (parsedData.ingredients && Array.isArray(parsedData.ingredients)) {
-            textParts.push(`Query: ${parsedData.query}`);
-            textParts.push(`RxCUI: ${parsedData.rxcui}`);
-            parsedData.ingredients.forEach((ingredient: any, idx: number) => {
-              textParts.push(`${idx + 1}. Ingredient: ${ingredient.name}, RxCUI: ${ingredient.rxcui}, Type: ${ingredient.termType}`);
-              if (ingredient.strength) textParts.push(`   Strength: ${ingredient.strength}`);
-              if (ingredient.dosageForm) textParts.push(`   Dosage Form: ${ingredient.dosageForm}`);
-            });
-          }
-          break;
-          
-        default:
-          // 通用处理：将对象转换为可读文本
-          textParts.push(JSON.stringify(parsedData, null, 2));
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<void>(resolve => { timer = setTimeout(resolve, Math.max(0, deadlineMs)); });
+    await Promise.race([work, deadline]);
+    clearTimeout(timer);
+    expired = true;
+
+    const now = Date.now();
+    sources.forEach((source, index) => {
+      if (timings[index].status === 'skipped' && startTimes[index] !== undefined) {
+        timings[index] = { type: source.type, status: 'timeout', duration_ms: now - startTimes[index] };
+      }
+    });
+
+    return {
+      data: results.filter((item): item is RAGSourceData => item !== undefined),
+      timings
+    };
+  }
+
+  private async warmCache(drugNames: string[]): Promise<WarmCacheResult> {
+    const warmed: string[] = [];
+    const failed: Array<{ drug_name: string; error: string }> = [];
+
+    for (const drugName of drugNames) {
+      const failures: Array<{ endpoint: string; error: string }> = [];
+
+      try {
+        // Run the same lookups the tools make so every endpoint they hit is cached
+        await this.warmFailures.run(failures, async () => {
+          await this.searchDrugByName(drugName, 10);
+          await this.getGenericName(drugName);
+          await this.getBrandNames(drugName);
+          await this.getATCClassification(drugName);
+          await this.getDrugIngredients(drugName);
+        });
+      } catch (error) {
+        if (failures.length === 0) {
+          failures.push({ endpoint: '', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      // A drug counts as warmed only if every upstream request it made succeeded
+      if (failures.length === 0) {
+        warmed.push(drugName);
+      } else {
+        // Several tools hit the same endpoints; report each failing one once
+        const messages = new Set(failures.map(f => f.endpoint ? `${f.endpoint}: ${f.error}` : f.error));
+        failed.push({ drug_name: drugName, error: [...messages].join('; ') });
       }
-      
-    } catch (error) {
-      this.log('warn', 'Failed to extract RxNav text', { type: item.type, error });
-      return `Error processing ${item.type} data: ${error}`;
     }
-    
-    return textParts.join('\n\n');
+
+    return {
+      backend: this.backend,
+      cache_enabled: this.cache !== null,
+      cached_entries: this.cache?.size ?? 0,
+      warmed,
+      failed
+    };
+  }
+
+  // One record per concept, ATC code or ingredient, each carrying the
+  // identifiers that retrieval and citations read from chunk metadata
+  private rxnavRecords(item: RAGSourceData): TextRecord[] {
+    const concept = (label: string, c: { rxcui: string; name: string; termType: string }): TextRecord => ({
+      text: `${label}: ${c.name}, RxCUI: ${c.rxcui}, Type: ${c.termType}`,
+      metadata: { record: 'concept', rxcui: c.rxcui, name: c.name, tty: c.termType }
+    });
+
+    switch (item.type) {
+      case 'search':
+        return item.data.results.map(result => concept('Concept', result));
+
+      case 'generic':
+        return item.data.generic_names.map(generic => concept('Generic Name', generic));
+
+      case 'brand':
+        return item.data.brand_names.map(brand => concept('Brand Name', brand));
+
+      case 'atc': {
+        const rxcui = item.data.rxcui;
+        return item.data.atc_codes.map(atc => ({
+          text: [
+            `ATC Code: ${atc.code}, Level: ${atc.level}, Description: ${atc.name}`,
+            atc.path ? `Hierarchy: ${atc.path}` : ''
+          ].filter(Boolean).join('\n'),
+          metadata: { record: 'atc', rxcui, name: atc.name, atc_code: atc.code, atc_level: atc.level }
+        }));
+      }
+
+      case 'ingredients':
+        return item.data.ingredients.map(ingredient => ({
+          text: [
+            `Ingredient: ${ingredient.name}, RxCUI: ${ingredient.rxcui}, Type: ${ingredient.termType}`,
+            ingredient.strength ? `Strength: ${ingredient.strength}` : '',
+            ingredient.dosageForm ? `Dosage Form: ${ingredient.dosageForm}` : ''
+          ].filter(Boolean).join('\n'),
+          metadata: {
+            record: 'ingredient',
+            rxcui: ingredient.rxcui,
+            name: ingredient.name,
+            tty: ingredient.termType,
+            strength: ingredient.strength,
+            dosage_form: ingredient.dosageForm
+          }
+        }));
+    }
   }
 
   async run() {
+    const server = this.createMcpServer();
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error("RxNav Drug Terminology MCP server running on stdio");
+    await server.connect(transport);
+
+    process.on("SIGINT", async () => {
+      this.log("info", "Shutting down RxNav MCP server");
+      await server.close();
+      process.exit(0);
+    });
+
+    console.error(`RxNav Drug Terminology MCP server running on stdio (${this.backend} backend)`);
+
+    if (process.env.RXNAV_CACHE_WARM) {
+      const drugNames = process.env.RXNAV_CACHE_WARM.split(',').map(n => n.trim()).filter(Boolean);
+      this.warmCache(drugNames).catch(error => this.log('warn', 'Cache warm-up failed', { error }));
+    }
   }
 }
 
-const server = new RxNavServer();
-server.run().catch(console.error);
+// Start the stdio server when run directly (also through the npm bin link),
+// but not when the HTTP server imports RxNavServer
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const server = new RxNavServer();
+  server.run().catch(console.error);
+}
@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RxNavServer } from './index.js';
+
+// Serves the MCP server over HTTP next to the REST routes: Streamable HTTP
+// on /mcp, and the older HTTP+SSE transport on /sse and /messages for
+// clients that do not support it yet. Every session gets its own protocol
+// server, all running on one RxNavServer so they share its cache.
+
+export interface McpHttpOptions {
+  // Browser origins allowed to connect; empty means loopback origins only
+  allowedOrigins: string[];
+  maxSessions: number;
+  idleTimeoutMs: number;
+}
+
+interface McpSession {
+  id: string;
+  kind: 'streamable' | 'sse';
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export class McpHttpSessions {
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private rxnav: RxNavServer, private options: McpHttpOptions) {
+    // Sweep at least once per idle timeout, so short timeouts are honoured promptly
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(MINUTE, options.idleTimeoutMs));
+    this.sweepTimer.unref();
+  }
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): McpHttpOptions {
+    return {
+      allowedOrigins: (env.MCP_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+      maxSessions: env.MCP_MAX_SESSIONS ? parseInt(env.MCP_MAX_SESSIONS, 10) : 100,
+      idleTimeoutMs: (env.MCP_SESSION_IDLE_MINUTES ? parseFloat(env.MCP_SESSION_IDLE_MINUTES) : 30) * MINUTE,
+    };
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  mount(app: express.Application) {
+    const checkOrigin = this.checkOrigin.bind(this);
+
+    app.post('/mcp', checkOrigin, (req, res) => this.handleStreamablePost(req, res));
+    app.get('/mcp', checkOrigin, (req, res) => this.handleStreamableSession(req, res));
+    app.delete('/mcp', checkOrigin, (req, res) => this.handleStreamableSession(req, res));
+
+    app.get('/sse', checkOrigin, (req, res) => this.openSseSession(req, res));
+    app.post('/messages', checkOrigin, (req, res) => this.handleSseMessage(req, res));
+  }
+
+  /**
+   * Closes every session, as part of shutting the HTTP server down.
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all([...this.sessions.keys()].map(id => this.closeSession(id)));
+  }
+
+  isAllowedOrigin(origin: string | undefined): boolean {
+    // Non-browser clients send no Origin; browsers always do, so this guards against DNS rebinding
+    if (!origin) return true;
+
+    const { allowedOrigins } = this.options;
+    if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) return true;
+    if (allowedOrigins.length > 0) return false;
+
+    try {
+      return LOOPBACK_HOSTS.includes(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private checkOrigin(req: Request, res: Response, next: NextFunction) {
+    if (this.isAllowedOrigin(req.header('origin'))) {
+      next();
+      return;
+    }
+
+    this.sendJsonRpcError(res, 403, `Origin not allowed: ${req.header('origin')}`);
+  }
+
+  private async handleStreamablePost(req: Request, res: Response) {
+    try {
+      const sessionId = req.header('mcp-session-id');
+
+      if (sessionId) {
+        const session = this.getSession(sessionId, 'streamable');
+        if (!session) {
+          this.sendJsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        this.sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header; send an initialize request first');
+        return;
+      }
+
+      if (this.sessions.size >= this.options.maxSessions) {
+        this.sendJsonRpcError(res, 503, 'Too many open MCP sessions');
+        return;
+      }
+
+      const server = this.rxnav.createMcpServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          this.sessions.set(id, { id, kind: 'streamable', transport, server, lastActivity: Date.now() });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) this.closeSession(transport.sessionId);
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  // GET opens the session's server-to-client stream, DELETE ends the session
+  private async handleStreamableSession(req: Request, res: Response) {
+    const session = this.getSession(req.header('mcp-session-id'), 'streamable');
+    if (!session) {
+      this.sendJsonRpcError(res, req.header('mcp-session-id') ? 404 : 400, 'Invalid or missing Mcp-Session-Id header');
+      return;
+    }
+
+    try {
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling MCP session request:', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private async openSseSession(req: Request, res: Response) {
+    if (this.sessions.size >= this.options.maxSessions) {
+      this.sendJsonRpcError(res, 503, 'Too many open MCP sessions');
+      return;
+    }
+
+    const server = this.rxnav.createMcpServer();
+    const transport = new SSEServerTransport('/messages', res);
+    const id = transport.sessionId;
+
+    this.sessions.set(id, { id, kind: 'sse', transport, server, lastActivity: Date.now() });
+    res.on('close', () => this.closeSession(id));
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      console.error('Error opening SSE session:', error);
+      await this.closeSession(id);
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response) {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    const session = this.getSession(sessionId, 'sse');
+    if (!session) {
+      this.sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    try {
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling SSE message:', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private getSession(id: string | undefined, kind: McpSession['kind']): McpSession | undefined {
+    const session = id ? this.sessions.get(id) : undefined;
+    if (!session || session.kind !== kind) return undefined;
+
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    // Closing the server closes the transport, whose onclose calls back here
+    if (!session) return;
+    this.sessions.delete(id);
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error closing MCP session ${id}:`, error);
+    }
+  }
+
+  private closeIdleSessions() {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (session.lastActivity < cutoff) {
+        this.closeSession(session.id);
+      }
+    }
+  }
+
+  private sendJsonRpcError(res: Response, status: number, message: string) {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// National Drug Code helpers. An NDC identifies labeler, product and package;
+// FDA issues it as 10 digits in 4-4-2, 5-3-2 or 5-4-1 form, while CMS and
+// RxNav use the 11-digit 5-4-2 form made by zero-padding the short segment.
+
+export type NdcFormat = '4-4-2' | '5-3-2' | '5-4-1' | '5-4-2' | '10-digit' | '11-digit';
+
+export interface NormalizedNdc {
+  input: string;
+  format: NdcFormat;
+  // 11-digit form, or null when an unhyphenated 10-digit NDC is ambiguous
+  ndc11: string | null;
+  hyphenated: string | null;
+  // Every 11-digit code the input could stand for
+  candidates: string[];
+}
+
+const HYPHENATED_NDC = /^(\d{4,5})-(\d{3,4})-(\d{1,2})$/;
+
+// RxCUIs are at most 8 digits, so 10 or 11 digits can only be an NDC
+export function isNdc(value: string): boolean {
+  return normalizeNdc(value) !== null;
+}
+
+export function normalizeNdc(value: string): NormalizedNdc | null {
+  const input = value.trim();
+
+  const hyphenated = input.match(HYPHENATED_NDC);
+  if (hyphenated) {
+    const [, labeler, product, pkg] = hyphenated;
+    const format = `${labeler.length}-${product.length}-${pkg.length}`;
+    if (!['4-4-2', '5-3-2', '5-4-1', '5-4-2'].includes(format)) return null;
+
+    const ndc11 = labeler.padStart(5, '0') + product.padStart(4, '0') + pkg.padStart(2, '0');
+    return {
+      input,
+      format: format as NdcFormat,
+      ndc11,
+      hyphenated: formatNdc11(ndc11),
+      candidates: [ndc11]
+    };
+  }
+
+  if (/^\d{11}$/.test(input)) {
+    return { input, format: '11-digit', ndc11: input, hyphenated: formatNdc11(input), candidates: [input] };
+  }
+
+  if (/^\d{10}$/.test(input)) {
+    // Without hyphens the short segment is unknown, so try each layout
+    const candidates = [
+      '0' + input,                                        // 4-4-2
+      input.slice(0, 5) + '0' + input.slice(5),           // 5-3-2
+      input.slice(0, 9) + '0' + input.slice(9),           // 5-4-1
+    ];
+    return { input, format: '10-digit', ndc11: null, hyphenated: null, candidates };
+  }
+
+  return null;
+}
+
+export function formatNdc11(ndc11: string): string {
+  return `${ndc11.slice(0, 5)}-${ndc11.slice(5, 9)}-${ndc11.slice(9)}`;
+}
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { upstreamScheduler } from './scheduler.js';
+
+// OpenFDA drug label client shared by the HTTP server and the MCP server
+
+export const DrugLabelSearchParamsSchema = z.object({
+  search: z.string().optional().describe("OpenFDA search query, e.g. a drug or ingredient name"),
+  count: z.string().optional().describe("Field to count results by instead of returning them"),
+  skip: z.coerce.number().int().min(0).optional().default(0).describe("Number of records to skip (paging)"),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50).describe("Maximum number of records to return"),
+});
+
+export type DrugLabelSearchParams = z.infer<typeof DrugLabelSearchParamsSchema>;
+
+export interface OpenFDAResponse {
+  meta: {
+    disclaimer: string;
+    terms: string;
+    license: string;
+    last_updated: string;
+    results: {
+      skip: number;
+      limit: number;
+      total: number;
+    };
+  };
+  results: any[];
+}
+
+// Narrative sections of an SPL label as named in OpenFDA results
+export const LABEL_SECTIONS = [
+  'boxed_warning',
+  'indications_and_usage',
+  'dosage_and_administration',
+  'contraindications',
+  'warnings_and_cautions',
+  'warnings',
+  'precautions',
+  'adverse_reactions',
+  'drug_interactions',
+  'use_in_specific_populations',
+  'pregnancy',
+  'overdosage',
+  'description',
+  'clinical_pharmacology',
+  'mechanism_of_action',
+  'how_supplied',
+] as const;
+
+export type LabelSection = typeof LABEL_SECTIONS[number];
+
+export const LabelSectionSchema = z.enum(LABEL_SECTIONS);
+
+export interface LabelSummary {
+  id: string;
+  set_id: string;
+  version: string;
+  effective_time: string;
+  brand_name: string;
+  generic_name: string;
+  manufacturer: string;
+  rxcuis: string[];
+  sections: LabelSection[];
+  has_boxed_warning: boolean;
+}
+
+// Raw OpenFDA label records with the total number matching the search
+export interface LabelSearchResult {
+  total: number;
+  results: OpenFDAResponse['results'];
+}
+
+export class OpenFDAError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'OpenFDAError';
+  }
+}
+
+export class OpenFDAClient {
+  constructor(private baseUrl = "https://api.fda.gov/drug/label.json", private scheduler = upstreamScheduler) {}
+
+  async makeRequest(params: DrugLabelSearchParams): Promise<OpenFDAResponse> {
+    const url = new URL(this.baseUrl);
+
+    if (params.search) {
+      url.searchParams.set("search", params.search);
+    }
+    if (params.count) {
+      url.searchParams.set("count", params.count);
+    }
+    if (params.skip) {
+      url.searchParams.set("skip", params.skip.toString());
+    }
+    if (params.limit) {
+      url.searchParams.set("limit", params.limit.toString());
+    }
+
+    return this.scheduler.coalesce(url.toString(), () => this.fetchJson(url.toString()));
+  }
+
+  private async fetchJson(url: string): Promise<OpenFDAResponse> {
+    await this.scheduler.acquire(url);
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new OpenFDAError(`OpenFDA API error (${response.status}): ${errorText}`, response.status);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Like `makeRequest`, but a search that matches nothing (OpenFDA answers
+   * 404) yields an empty result list instead of an error.
+   */
+  async searchLabels(params: DrugLabelSearchParams): Promise<LabelSearchResult> {
+    try {
+      const data = await this.makeRequest(params);
+      return { total: data.meta?.results?.total || 0, results: data.results || [] };
+    } catch (error) {
+      if (error instanceof OpenFDAError && error.status === 404) {
+        return { total: 0, results: [] };
+      }
+      throw error;
+    }
+  }
+}
+
+export function buildNameSearch(name: string): string {
+  return `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+}
+
+// openfda.rxcui lists the product-level RxCUIs (SCD, SBD, packs) a label covers
+export function buildRxcuiSearch(rxcuis: string[]): string {
+  return `(${rxcuis.map(rxcui => `openfda.rxcui:"${rxcui}"`).join(' OR ')})`;
+}
+
+export function summarizeLabel(result: any): LabelSummary {
+  return {
+    id: result.id,
+    set_id: result.set_id,
+    version: result.version,
+    effective_time: result.effective_time,
+    brand_name: result.openfda?.brand_name?.[0] || "Unknown",
+    generic_name: result.openfda?.generic_name?.[0] || "Unknown",
+    manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
+    rxcuis: result.openfda?.rxcui || [],
+    sections: LABEL_SECTIONS.filter(section => Array.isArray(result[section]) && result[section].length > 0),
+    has_boxed_warning: Array.isArray(result.boxed_warning) && result.boxed_warning.length > 0
+  };
+}
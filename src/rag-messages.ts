@@ -0,0 +1,99 @@
+/**
+ * RAG 摘要的多语言文案
+ * 每个摘要模板（含无结果提示）中的文字都从这里取，zh 与 en 两套文案键值一一对应，
+ * bilingual 输出为“中文 / English”
+ */
+
+export type SummaryLanguage = 'zh' | 'en' | 'bilingual';
+
+const zh = {
+  noResults: (query: string) => `未找到与查询相关的信息。查询: ${query}`,
+  noInput: () => '请提供药物名称或具体查询以获取 RxNav 术语信息。',
+  drugNotFound: (drug: string) => `未找到药物 "${drug}" 的相关信息。请检查药物名称拼写或尝试其他名称。`,
+  deadlineExceeded: (drug: string) => `在时间预算内未能获取药物 "${drug}" 的信息。请增大 deadline_ms 后重试。`,
+
+  drug: () => '药物',
+  condition: () => '适应症',
+  query: () => '查询',
+
+  clinicalTrialsTitle: () => '临床试验不良事件分析',
+  clinicalTrialsSources: (count: number) => `${count} 个临床试验片段`,
+  sourcesLabel: () => '数据来源',
+  keyFindings: () => '关键发现',
+  studyCount: (count: number) => `涉及研究数量: ${count}`,
+  evidenceSummary: () => '证据摘要',
+  recommendation: () => '建议',
+  clinicalTrialsAdvice: (count: number) => `基于 ${count} 个相关片段的分析，建议进一步查看具体研究详情以获得完整的安全性评估。`,
+
+  openFDATitle: () => 'FDA 药物标签安全信息',
+  openFDASources: (count: number) => `${count} 个 FDA 标签片段`,
+  keySafetyInformation: () => '重要安全信息',
+
+  rxnavTitle: () => 'RxNav 药物术语信息',
+  rxnavSources: (count: number) => `${count} 个 RxNav 术语片段`,
+  terminologyStats: () => '术语信息统计',
+  rxcuiCount: (count: number) => `RxCUI 标识符: ${count} 个`,
+  atcCount: (count: number) => `ATC 分类代码: ${count} 个`,
+  terminologyDetails: () => '药物术语详情',
+
+  genericTitle: () => '信息摘要',
+  relevantChunks: () => '相关片段',
+  mainContent: () => '主要内容',
+};
+
+export type MessageCatalog = typeof zh;
+export type MessageKey = keyof MessageCatalog;
+
+const en: MessageCatalog = {
+  noResults: query => `No relevant information found. Query: ${query}`,
+  noInput: () => 'Provide a drug name or a query to look up RxNav terminology.',
+  drugNotFound: drug => `No information found for drug "${drug}". Check the spelling or try another name.`,
+  deadlineExceeded: drug => `No information for drug "${drug}" arrived within the time budget. Retry with a larger deadline_ms.`,
+
+  drug: () => 'Drug',
+  condition: () => 'Condition',
+  query: () => 'Query',
+
+  clinicalTrialsTitle: () => 'Clinical Trial Adverse Event Analysis',
+  clinicalTrialsSources: count => `${count} clinical trial excerpts`,
+  sourcesLabel: () => 'Sources',
+  keyFindings: () => 'Key Findings',
+  studyCount: count => `Studies: ${count}`,
+  evidenceSummary: () => 'Evidence',
+  recommendation: () => 'Recommendation',
+  clinicalTrialsAdvice: count => `Based on ${count} relevant excerpts; review the individual studies for a complete safety assessment.`,
+
+  openFDATitle: () => 'FDA Drug Label Safety Information',
+  openFDASources: count => `${count} FDA label excerpts`,
+  keySafetyInformation: () => 'Key Safety Information',
+
+  rxnavTitle: () => 'RxNav Drug Terminology',
+  rxnavSources: count => `${count} RxNav terminology excerpts`,
+  terminologyStats: () => 'Terminology Statistics',
+  rxcuiCount: count => `RxCUI identifiers: ${count}`,
+  atcCount: count => `ATC codes: ${count}`,
+  terminologyDetails: () => 'Terminology Details',
+
+  genericTitle: () => 'Summary',
+  relevantChunks: () => 'Relevant excerpts',
+  mainContent: () => 'Main Content',
+};
+
+export const CATALOGS: Record<'zh' | 'en', MessageCatalog> = { zh, en };
+
+/**
+ * 按语言取文案，bilingual 时中英文以 " / " 连接
+ */
+export function message<K extends MessageKey>(
+  language: SummaryLanguage,
+  key: K,
+  ...args: Parameters<MessageCatalog[K]>
+): string {
+  const render = (catalog: MessageCatalog) =>
+    (catalog[key] as (...values: Parameters<MessageCatalog[K]>) => string)(...args);
+
+  if (language === 'bilingual') {
+    return `${render(zh)} / ${render(en)}`;
+  }
+  return render(CATALOGS[language]);
+}
@@ -4,6 +4,8 @@
  * 无外部依赖，适用于 MCP 服务端内嵌使用
  */
 
+import { message, SummaryLanguage } from './rag-messages.js';
+
 export interface TextChunk {
   id: string;
   text: string;
@@ -12,6 +14,13 @@ export interface TextChunk {
   score?: number;
 }
 
+export interface RAGSourceTiming {
+  type: string;
+  status: 'ok' | 'error' | 'timeout' | 'skipped';
+  duration_ms: number;
+  error?: string;
+}
+
 export interface RAGResult {
   source: string;
   query?: string;
@@ -24,6 +33,11 @@ export interface RAGResult {
     title?: string;
     type?: string;
   }>;
+  // 流水线诊断信息：解析出的 RxCUI、是否有数据源未完成、各数据源耗时与错误
+  rxcui?: string | null;
+  partial?: boolean;
+  elapsed_ms?: number;
+  sources?: RAGSourceTiming[];
 }
 
 /**
@@ -77,7 +91,45 @@ export function chunkText(
 }
 
 /**
- * 基于关键词重叠和 TF-IDF 的简版文本评分
+ * 结构化记录的类型化元数据，检索加权和引用提取直接读取这些字段
+ */
+export interface RecordMetadata {
+  record: 'concept' | 'atc' | 'ingredient';
+  rxcui?: string;
+  name?: string;
+  tty?: string;
+  atc_code?: string;
+  atc_level?: number;
+  strength?: string;
+  dosage_form?: string;
+}
+
+export interface TextRecord {
+  text: string;
+  metadata: RecordMetadata;
+}
+
+/**
+ * 按记录分块：每条记录（一个概念、一个 ATC 代码、一个带规格的成分）作为一个块，
+ * 不会像按字符数分块那样把名称和 RxCUI 切到不同的块里
+ */
+export function chunkRecords(
+  records: TextRecord[],
+  sourceId: string = '',
+  metadata: Record<string, any> = {}
+): TextChunk[] {
+  return records
+    .filter(record => record.text.trim().length > 0)
+    .map((record, recordIndex) => ({
+      id: `${sourceId}_record_${recordIndex}`,
+      text: record.text.trim(),
+      source: sourceId,
+      metadata: { ...metadata, ...record.metadata, recordIndex }
+    }));
+}
+
+/**
+ * 基于关键词重叠的简版文本评分（旧版评分器，仅使用词频）
  */
 export function scoreChunkByQuery(
   chunk: TextChunk, 
@@ -95,7 +147,8 @@ export function scoreChunkByQuery(
   
   // 关键词匹配得分
   for (const keyword of allKeywords) {
-    const matches = (text.match(new RegExp(keyword, 'g')) || []).length;
+    // 查询词按字面匹配，"(" "+" 等字符不能当作正则语法
+    const matches = (text.match(new RegExp(escapeRegExp(keyword), 'g')) || []).length;
     if (matches > 0) {
       // TF 权重：词频 * log(1 + 词长度)
       score += matches * Math.log(1 + keyword.length);
@@ -113,6 +166,246 @@ export function scoreChunkByQuery(
   return score;
 }
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 英文停用词：不区分文档的高频虚词
+const ENGLISH_STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'no', 'not', 'of', 'on', 'or',
+  'such', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'about', 'does', 'do'
+]);
+
+// 中文停用字：在这些字处切断中文片段，不参与二元组
+const CHINESE_STOPWORDS = new Set([
+  '的', '了', '和', '与', '及', '或', '是', '在', '有', '为', '对', '等', '把', '被',
+  '这', '那', '其', '之', '于', '也', '都', '就', '而', '吗', '呢', '吧', '啊', '哪', '些', '个'
+]);
+
+const CJK_CHAR = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 中英文混合分词
+ * 英文与数字按词切分并转为小写；中文没有空格分词，连续汉字切成二元组（单字片段保留单字）。
+ * 两种语言都会去掉停用词。
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const segments = text.toLowerCase().match(/[a-z0-9]+(?:['-][a-z0-9]+)*|[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g) || [];
+
+  for (const segment of segments) {
+    if (!CJK_CHAR.test(segment[0])) {
+      if (!ENGLISH_STOPWORDS.has(segment)) {
+        tokens.push(segment);
+      }
+      continue;
+    }
+
+    let run = '';
+    for (const char of [...segment, '']) {
+      if (char && !CHINESE_STOPWORDS.has(char)) {
+        run += char;
+        continue;
+      }
+      const chars = [...run];
+      if (chars.length === 1) {
+        tokens.push(run);
+      }
+      for (let i = 0; i + 1 < chars.length; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+      run = '';
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 按块元数据加权，例如 { type: { atc: 1.5, search: 0.8 } }
+ * 表示 metadata.type 为 atc 的块得分乘以 1.5；未列出的取值权重为 1
+ */
+export type MetadataBoosts = Record<string, Record<string, number>>;
+
+export interface BM25Options {
+  // 词频饱和参数
+  k1?: number;
+  // 文档长度归一化强度，0 表示不归一化
+  b?: number;
+  boosts?: MetadataBoosts;
+}
+
+export interface BM25Index {
+  chunks: TextChunk[];
+  termFrequencies: Array<Map<string, number>>;
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+  k1: number;
+  b: number;
+  boosts: MetadataBoosts;
+}
+
+/**
+ * 为一组文本块建立 BM25 索引，统计每个块的词频、块长度以及整个语料的文档频率
+ */
+export function buildBM25Index(chunks: TextChunk[], options: BM25Options = {}): BM25Index {
+  const termFrequencies: Array<Map<string, number>> = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+    termFrequencies.push(frequencies);
+    lengths.push(tokens.length);
+  }
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    chunks,
+    termFrequencies,
+    lengths,
+    documentFrequency,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    k1: options.k1 ?? 1.2,
+    b: options.b ?? 0.75,
+    boosts: options.boosts ?? {}
+  };
+}
+
+/**
+ * 计算查询对索引中每个块的 BM25 得分，顺序与建索引时的块一致
+ * 附加关键词以 extraWeight 的权重参与评分，查询本身的词权重为 1
+ */
+export function scoreBM25(
+  index: BM25Index,
+  query: string,
+  extraKeywords: string[] = [],
+  extraWeight: number = 0.3
+): number[] {
+  const queryWeights = new Map<string, number>();
+  for (const keyword of extraKeywords) {
+    for (const term of tokenize(keyword)) {
+      queryWeights.set(term, extraWeight);
+    }
+  }
+  for (const term of tokenize(query)) {
+    queryWeights.set(term, 1);
+  }
+
+  const { chunks, termFrequencies, lengths, documentFrequency, averageLength, k1, b } = index;
+  const total = chunks.length;
+
+  return chunks.map((chunk, i) => {
+    let score = 0;
+    const lengthNorm = averageLength > 0 ? 1 - b + b * lengths[i] / averageLength : 1;
+
+    for (const [term, weight] of queryWeights) {
+      const tf = termFrequencies[i].get(term);
+      if (!tf) continue;
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += weight * idf * (tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+    }
+
+    return score * metadataBoost(chunk, index.boosts);
+  });
+}
+
+function metadataBoost(chunk: TextChunk, boosts: MetadataBoosts): number {
+  let boost = 1;
+  for (const [field, values] of Object.entries(boosts)) {
+    const value = chunk.metadata?.[field];
+    if (value !== undefined && values[String(value)] !== undefined) {
+      boost *= values[String(value)];
+    }
+  }
+  return boost;
+}
+
+export type RankingMethod = 'legacy' | 'bm25';
+
+export interface RankOptions extends BM25Options {
+  // 默认使用旧版评分器，保持原有排序结果
+  method?: RankingMethod;
+  // 设置后按 MMR 选取：1 只看相关性，越小越偏向与已选块不重复的内容
+  diversity?: number;
+  // 每个来源（chunk.source）最多选取的块数
+  maxPerSource?: number;
+}
+
+/**
+ * 两个块的相似度：分词后词集合的 Jaccard 系数
+ */
+export function chunkSimilarity(a: TextChunk, b: TextChunk): number {
+  const termsA = new Set(tokenize(a.text));
+  const termsB = new Set(tokenize(b.text));
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const term of termsA) {
+    if (termsB.has(term)) shared++;
+  }
+  return shared / (termsA.size + termsB.size - shared);
+}
+
+/**
+ * 最大边际相关（MMR）选取：每一步选择“相关性 - 与已选块的最大相似度”最高的块，
+ * 避免重叠分块或重复列表占满 Top-K。输入需已带 score。
+ */
+export function selectDiverse(
+  scoredChunks: TextChunk[],
+  topK: number,
+  diversity: number = 0.7,
+  maxPerSource: number = Infinity
+): TextChunk[] {
+  const maxScore = Math.max(0, ...scoredChunks.map(chunk => chunk.score || 0));
+  const remaining = [...scoredChunks];
+  const selected: TextChunk[] = [];
+  const perSource = new Map<string, number>();
+  // 相似度按块缓存，避免每轮重复分词比较
+  const maxSimilarity = new Map<TextChunk, number>(remaining.map(chunk => [chunk, 0]));
+
+  while (selected.length < topK) {
+    let best = -1;
+    let bestValue = -Infinity;
+
+    remaining.forEach((chunk, i) => {
+      if ((perSource.get(chunk.source) || 0) >= maxPerSource) return;
+
+      const relevance = maxScore > 0 ? (chunk.score || 0) / maxScore : 0;
+      const value = diversity * relevance - (1 - diversity) * maxSimilarity.get(chunk)!;
+      if (value > bestValue) {
+        bestValue = value;
+        best = i;
+      }
+    });
+
+    if (best === -1) break;
+
+    const [picked] = remaining.splice(best, 1);
+    selected.push(picked);
+    perSource.set(picked.source, (perSource.get(picked.source) || 0) + 1);
+
+    for (const chunk of remaining) {
+      maxSimilarity.set(chunk, Math.max(maxSimilarity.get(chunk)!, chunkSimilarity(chunk, picked)));
+    }
+  }
+
+  return selected;
+}
+
 /**
  * 对文本块进行排序并选择 Top-K
  */
@@ -120,23 +413,190 @@ export function rankAndPickTop(
   chunks: TextChunk[], 
   query: string,
   topK: number = 5,
-  extraKeywords: string[] = []
+  extraKeywords: string[] = [],
+  options: RankOptions = {}
 ): TextChunk[] {
   // 计算每个块的得分
-  const scoredChunks = chunks.map(chunk => ({
+  const scores = options.method === 'bm25'
+    ? scoreBM25(buildBM25Index(chunks, options), query, extraKeywords)
+    : chunks.map(chunk => scoreChunkByQuery(chunk, query, extraKeywords));
+
+  const scoredChunks = chunks.map((chunk, i) => ({
     ...chunk,
-    score: scoreChunkByQuery(chunk, query, extraKeywords)
+    score: scores[i]
   }));
   
   // 按得分降序排序
   scoredChunks.sort((a, b) => (b.score || 0) - (a.score || 0));
+
+  if (options.diversity !== undefined || options.maxPerSource !== undefined) {
+    return selectDiverse(scoredChunks, topK, options.diversity ?? 1, options.maxPerSource);
+  }
   
   // 返回 Top-K
   return scoredChunks.slice(0, topK);
 }
 
+/**
+ * 将同一来源中位置重叠或相邻的块合并为连续片段
+ * 依据 chunkText 写入的 start/end 元数据，没有位置信息的块（如按记录分块）原样保留；
+ * 合并后的块取最高得分，并按得分降序返回
+ */
+export function mergeOverlappingChunks(chunks: TextChunk[]): TextChunk[] {
+  const bySource = new Map<string, TextChunk[]>();
+  const merged: TextChunk[] = [];
+
+  for (const chunk of chunks) {
+    const { start, end } = chunk.metadata || {};
+    if (typeof start !== 'number' || typeof end !== 'number') {
+      merged.push(chunk);
+      continue;
+    }
+    const group = bySource.get(chunk.source);
+    if (group) {
+      group.push(chunk);
+    } else {
+      bySource.set(chunk.source, [chunk]);
+    }
+  }
+
+  for (const group of bySource.values()) {
+    group.sort((a, b) => a.metadata.start - b.metadata.start);
+
+    let current = group[0];
+    for (const next of group.slice(1)) {
+      if (next.metadata.start <= current.metadata.end) {
+        current = joinChunks(current, next);
+      } else {
+        merged.push(current);
+        current = next;
+      }
+    }
+    merged.push(current);
+  }
+
+  return merged.sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+function joinChunks(first: TextChunk, second: TextChunk): TextChunk {
+  // 块文本经过 trim，重叠部分可能比 start/end 算出的略短，从预期长度往下找
+  const expected = Math.min(first.metadata.end - second.metadata.start, first.text.length, second.text.length);
+  let overlap = 0;
+  for (let k = expected; k > 0; k--) {
+    if (first.text.endsWith(second.text.slice(0, k))) {
+      overlap = k;
+      break;
+    }
+  }
+
+  const text = overlap > 0
+    ? first.text + second.text.slice(overlap)
+    : `${first.text} ${second.text}`;
+
+  return {
+    ...first,
+    text,
+    score: Math.max(first.score || 0, second.score || 0),
+    metadata: {
+      ...first.metadata,
+      end: Math.max(first.metadata.end, second.metadata.end),
+      mergedFrom: [...(first.metadata.mergedFrom || [first.id]), second.id]
+    }
+  };
+}
+
+export interface SummarySentence {
+  text: string;
+  // 句子所在块在输入 chunks 中的下标，引用标记 [n] 即 chunkIndex + 1
+  chunkIndex: number;
+  score: number;
+}
+
+/**
+ * 将自由文本切分为句子：按换行以及中英文句末标点断开
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[。！？])|(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+// 按字符切出的块首尾可能是半句话：不在原文开头的块丢掉第一句，
+// 没有句末标点的最后一句也丢掉（完整的句子在相邻块中）
+function chunkSentences(chunk: TextChunk): string[] {
+  const sentences = splitSentences(chunk.text);
+  if (sentences.length > 1 && (chunk.metadata?.start ?? 0) > 0) {
+    sentences.shift();
+  }
+  if (sentences.length > 1 && !/[.!?。！？]$/.test(sentences[sentences.length - 1])) {
+    sentences.pop();
+  }
+  return sentences;
+}
+
+// 已选句子与候选句的相似度达到该值即视为重复
+const REDUNDANT_SIMILARITY = 0.8;
+
+/**
+ * 查询导向的抽取式句子选择
+ * 结构化记录整条作为一个单元，自由文本切成句子；句子按 BM25 与查询匹配度打分，
+ * 并参考所在块的排名，再用 MMR 排序并去掉重复句子，在 budget 字符内尽量多放完整句子
+ */
+export function selectSummarySentences(
+  chunks: TextChunk[],
+  query: string,
+  budget: number
+): SummarySentence[] {
+  const units: TextChunk[] = chunks.flatMap((chunk, chunkIndex) => {
+    const sentences = chunk.metadata?.record
+      ? [chunk.text.split(/\n+/).join('; ')]
+      : chunkSentences(chunk);
+    return sentences.map((text, i) => ({
+      id: `${chunk.id}_sentence_${i}`,
+      text,
+      source: chunk.source,
+      metadata: { chunkIndex }
+    }));
+  });
+  if (units.length === 0) return [];
+
+  // 查询匹配度占主要权重，块排名作为先验，查询词未出现时保持检索顺序
+  const matchScores = scoreBM25(buildBM25Index(units), query);
+  const maxMatch = Math.max(0, ...matchScores);
+  const scored = units.map((unit, i) => ({
+    ...unit,
+    score: 0.7 * (maxMatch > 0 ? matchScores[i] / maxMatch : 0) +
+      0.3 * (1 - unit.metadata.chunkIndex / chunks.length)
+  }));
+
+  const selected: SummarySentence[] = [];
+  const taken: TextChunk[] = [];
+  let used = 0;
+
+  for (const unit of selectDiverse(scored, scored.length)) {
+    const line = formatSummarySentence({ text: unit.text, chunkIndex: unit.metadata.chunkIndex, score: unit.score! });
+    if (used + line.length + 1 > budget) continue;
+    if (taken.some(other => chunkSimilarity(unit, other) >= REDUNDANT_SIMILARITY)) continue;
+
+    selected.push({ text: unit.text, chunkIndex: unit.metadata.chunkIndex, score: unit.score! });
+    taken.push(unit);
+    used += line.length + 1;
+  }
+
+  return selected;
+}
+
+// 每个句子一行，句末的 [n] 指向输入中第 n 个块
+function formatSummarySentence(sentence: SummarySentence): string {
+  return `- ${sentence.text} [${sentence.chunkIndex + 1}]`;
+}
+
 /**
  * 生成结构化摘要
+ * 标题与统计信息之后是查询导向的抽取式句子，每句带引用标记 [n]（对应 chunks 中第 n 个块），
+ * 整体不超过 maxLength 且不截断句子。language 决定标题和说明文字的语言，默认中文
  */
 export function summarizeChunks(
   chunks: TextChunk[], 
@@ -146,215 +606,161 @@ export function summarizeChunks(
     drug?: string;
     condition?: string;
     maxLength?: number;
+    language?: SummaryLanguage;
   }
 ): string {
-  const { source, query, drug, condition, maxLength = 1200 } = options;
+  const { source, query, drug, condition, maxLength = 1200, language = 'zh' } = options;
   
   if (chunks.length === 0) {
-    return `未找到与查询相关的信息。查询: ${query || drug || condition || 'N/A'}`;
+    return message(language, 'noResults', query || drug || condition || 'N/A');
   }
   
-  let summary = '';
+  let sections: SummarySections;
+  const context = { query, drug, condition, language };
   
   // 根据不同数据源定制摘要格式
   switch (source) {
     case 'clinicaltrials':
-      summary = generateClinicalTrialsSummary(chunks, { query, drug, condition });
+      sections = generateClinicalTrialsSummary(chunks, context);
       break;
     case 'openfda':
-      summary = generateOpenFDASummary(chunks, { query, drug, condition });
+      sections = generateOpenFDASummary(chunks, context);
       break;
     case 'rxnav':
-      summary = generateRxNavSummary(chunks, { query, drug, condition });
+      sections = generateRxNavSummary(chunks, context);
       break;
     default:
-      summary = generateGenericSummary(chunks, { query, drug, condition });
+      sections = generateGenericSummary(chunks, context);
   }
+
+  const footer = sections.footer ? `\n${sections.footer}` : '';
+  const budget = maxLength - sections.head.length - footer.length;
+  const focus = [query, drug, condition].filter(Boolean).join(' ');
+  const sentences = selectSummarySentences(chunks, focus, budget);
+
+  let summary = sections.head + sentences.map(sentence => `${formatSummarySentence(sentence)}\n`).join('') + footer;
   
-  // 长度控制
+  // 标题部分本身已超长时的兜底：从末尾起整行去掉（先 footer 后标题部分），不截断句子或引用标记
   if (summary.length > maxLength) {
-    summary = summary.slice(0, maxLength - 3) + '...';
+    const lines = summary.split('\n');
+    while (lines.length > 0 && lines.join('\n').length > maxLength) {
+      lines.pop();
+    }
+    summary = lines.join('\n');
   }
   
   return summary;
 }
 
-function generateClinicalTrialsSummary(
-  chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
-): string {
-  const { drug, condition, query } = context;
+interface SummaryContext {
+  query?: string;
+  drug?: string;
+  condition?: string;
+  language: SummaryLanguage;
+}
+
+// head 以证据小节标题结尾，抽取的句子接在其后，footer 放在句子之后
+interface SummarySections {
+  head: string;
+  footer?: string;
+}
+
+// 标题下方的药物、适应症、查询说明
+function summaryHeader(context: SummaryContext): string {
+  const { drug, condition, query, language } = context;
+  let header = '';
   
-  let summary = `## 临床试验不良事件分析\n\n`;
+  if (drug) header += `**${message(language, 'drug')}**: ${drug}\n`;
+  if (condition) header += `**${message(language, 'condition')}**: ${condition}\n`;
+  if (query) header += `**${message(language, 'query')}**: ${query}\n`;
   
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
+  return header;
+}
+
+function generateClinicalTrialsSummary(
+  chunks: TextChunk[], 
+  context: SummaryContext
+): SummarySections {
+  const { language } = context;
   
-  summary += `**数据来源**: ${chunks.length} 个临床试验片段\n\n`;
+  let head = `## ${message(language, 'clinicalTrialsTitle')}\n\n`;
+  head += summaryHeader(context);
+  head += `**${message(language, 'sourcesLabel')}**: ${message(language, 'clinicalTrialsSources', chunks.length)}\n\n`;
   
-  // 提取关键信息
-  const adverseEvents = new Set<string>();
+  // 统计文中出现的研究编号
   const studyIds = new Set<string>();
-  let hasControlComparison = false;
-  
   chunks.forEach(chunk => {
-    // 提取研究 ID
-    const nctMatch = chunk.text.match(/NCT\d+/g);
-    if (nctMatch) {
-      nctMatch.forEach(id => studyIds.add(id));
-    }
-    
-    // 检测对照组比较
-    if (chunk.text.toLowerCase().includes('placebo') || 
-        chunk.text.toLowerCase().includes('control')) {
-      hasControlComparison = true;
-    }
-    
-    // 提取不良事件关键词
-    const aeKeywords = ['adverse', 'side effect', 'toxicity', 'safety', '不良事件', '副作用'];
-    aeKeywords.forEach(keyword => {
-      if (chunk.text.toLowerCase().includes(keyword.toLowerCase())) {
-        adverseEvents.add(keyword);
-      }
-    });
+    (chunk.text.match(/NCT\d+/g) || []).forEach(id => studyIds.add(id));
   });
   
-  summary += `### 关键发现\n`;
-  summary += `- 涉及研究数量: ${studyIds.size}\n`;
-  summary += `- 包含对照组比较: ${hasControlComparison ? '是' : '否'}\n`;
-  summary += `- 不良事件相关性: ${adverseEvents.size > 0 ? '是' : '否'}\n\n`;
+  head += `### ${message(language, 'keyFindings')}\n`;
+  head += `- ${message(language, 'studyCount', studyIds.size)}\n\n`;
+  head += `### ${message(language, 'evidenceSummary')}\n`;
   
-  summary += `### 证据摘要\n`;
-  chunks.slice(0, 3).forEach((chunk, idx) => {
-    const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
-    summary += `${idx + 1}. ${preview}...\n\n`;
-  });
-  
-  summary += `### 建议\n`;
-  summary += `基于 ${chunks.length} 个相关片段的分析，建议进一步查看具体研究详情以获得完整的安全性评估。`;
+  const footer = `\n### ${message(language, 'recommendation')}\n${message(language, 'clinicalTrialsAdvice', chunks.length)}`;
   
-  return summary;
+  return { head, footer };
 }
 
 function generateOpenFDASummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
-): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## FDA 药物标签安全信息\n\n`;
-  
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
-  
-  summary += `**数据来源**: ${chunks.length} 个 FDA 标签片段\n\n`;
-  
-  // 分类信息
-  const categories = {
-    warnings: 0,
-    adverseReactions: 0,
-    contraindications: 0,
-    boxedWarning: 0
-  };
-  
-  chunks.forEach(chunk => {
-    const text = chunk.text.toLowerCase();
-    if (text.includes('warning') || text.includes('警告')) categories.warnings++;
-    if (text.includes('adverse') || text.includes('不良反应')) categories.adverseReactions++;
-    if (text.includes('contraindication') || text.includes('禁忌')) categories.contraindications++;
-    if (text.includes('boxed') || text.includes('黑框')) categories.boxedWarning++;
-  });
-  
-  summary += `### 安全信息分类\n`;
-  summary += `- 警告信息: ${categories.warnings} 条\n`;
-  summary += `- 不良反应: ${categories.adverseReactions} 条\n`;
-  summary += `- 禁忌症: ${categories.contraindications} 条\n`;
-  summary += `- 黑框警告: ${categories.boxedWarning} 条\n\n`;
+  context: SummaryContext
+): SummarySections {
+  const { language } = context;
   
-  summary += `### 重要安全信息\n`;
-  chunks.slice(0, 3).forEach((chunk, idx) => {
-    const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
-    summary += `${idx + 1}. ${preview}...\n\n`;
-  });
+  let head = `## ${message(language, 'openFDATitle')}\n\n`;
+  head += summaryHeader(context);
+  head += `**${message(language, 'sourcesLabel')}**: ${message(language, 'openFDASources', chunks.length)}\n\n`;
+  head += `### ${message(language, 'keySafetyInformation')}\n`;
   
-  return summary;
+  return { head };
 }
 
 function generateRxNavSummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
-): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## RxNav 药物术语信息\n\n`;
+  context: SummaryContext
+): SummarySections {
+  const { language } = context;
   
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
+  let head = `## ${message(language, 'rxnavTitle')}\n\n`;
+  head += summaryHeader(context);
+  head += `**${message(language, 'sourcesLabel')}**: ${message(language, 'rxnavSources', chunks.length)}\n\n`;
   
-  summary += `**数据来源**: ${chunks.length} 个 RxNav 术语片段\n\n`;
-  
-  // 提取 RxCUI 和分类信息
+  // 统计记录元数据中的 RxCUI 和 ATC 代码
   const rxcuis = new Set<string>();
   const atcCodes = new Set<string>();
   
   chunks.forEach(chunk => {
-    // 提取 RxCUI
-    const rxcuiMatch = chunk.text.match(/rxcui["\s:]+(\d+)/gi);
-    if (rxcuiMatch) {
-      rxcuiMatch.forEach(match => {
-        const id = match.match(/\d+/);
-        if (id) rxcuis.add(id[0]);
-      });
-    }
-    
-    // 提取 ATC 代码
-    const atcMatch = chunk.text.match(/[A-Z]\d{2}[A-Z]{2}\d{2}/g);
-    if (atcMatch) {
-      atcMatch.forEach(code => atcCodes.add(code));
-    }
+    if (chunk.metadata?.rxcui) rxcuis.add(chunk.metadata.rxcui);
+    if (chunk.metadata?.atc_code) atcCodes.add(chunk.metadata.atc_code);
   });
   
-  summary += `### 术语信息统计\n`;
-  summary += `- RxCUI 标识符: ${rxcuis.size} 个\n`;
-  summary += `- ATC 分类代码: ${atcCodes.size} 个\n\n`;
-  
-  summary += `### 药物术语详情\n`;
-  chunks.slice(0, 3).forEach((chunk, idx) => {
-    const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
-    summary += `${idx + 1}. ${preview}...\n\n`;
-  });
+  head += `### ${message(language, 'terminologyStats')}\n`;
+  head += `- ${message(language, 'rxcuiCount', rxcuis.size)}\n`;
+  head += `- ${message(language, 'atcCount', atcCodes.size)}\n\n`;
+  head += `### ${message(language, 'terminologyDetails')}\n`;
   
-  return summary;
+  return { head };
 }
 
 function generateGenericSummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
-): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## 信息摘要\n\n`;
-  
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
+  context: SummaryContext
+): SummarySections {
+  const { language } = context;
   
-  summary += `**相关片段**: ${chunks.length} 个\n\n`;
+  let head = `## ${message(language, 'genericTitle')}\n\n`;
+  head += summaryHeader(context);
+  head += `**${message(language, 'relevantChunks')}**: ${chunks.length}\n\n`;
+  head += `### ${message(language, 'mainContent')}\n`;
   
-  summary += `### 主要内容\n`;
-  chunks.slice(0, 5).forEach((chunk, idx) => {
-    const preview = chunk.text.slice(0, 150).replace(/\n/g, ' ');
-    summary += `${idx + 1}. ${preview}...\n\n`;
-  });
-  
-  return summary;
+  return { head };
 }
 
 /**
  * 提取引用信息
+ * 结构化记录按元数据引用对应的 RxNorm 概念或 ATC 代码；
+ * 自由文本（如临床试验）仍从正文中识别 NCT 编号
  */
 export function extractCitations(chunks: TextChunk[]): Array<{
   id: string;
@@ -363,40 +769,33 @@ export function extractCitations(chunks: TextChunk[]): Array<{
 }> {
   const citations: Array<{ id: string; title?: string; type?: string }> = [];
   const seenIds = new Set<string>();
+
+  const cite = (id: string, type: string, title?: string) => {
+    if (!seenIds.has(id)) {
+      citations.push(title ? { id, type, title } : { id, type });
+      seenIds.add(id);
+    }
+  };
   
   chunks.forEach(chunk => {
+    const metadata = chunk.metadata || {};
+
+    if (metadata.atc_code) {
+      cite(metadata.atc_code, 'atc', metadata.name);
+    } else if (metadata.rxcui) {
+      cite(metadata.rxcui, 'rxnorm', metadata.name);
+    }
+
+    if (metadata.record) return;
+
     // 提取 NCT ID
     const nctMatches = chunk.text.match(/NCT\d+/g);
     if (nctMatches) {
-      nctMatches.forEach(nctId => {
-        if (!seenIds.has(nctId)) {
-          citations.push({ id: nctId, type: 'clinical_trial' });
-          seenIds.add(nctId);
-        }
-      });
-    }
-    
-    // 提取 RxCUI
-    const rxcuiMatches = chunk.text.match(/rxcui["\s:]+(\d+)/gi);
-    if (rxcuiMatches) {
-      rxcuiMatches.forEach(match => {
-        const id = match.match(/\d+/);
-        if (id && !seenIds.has(id[0])) {
-          citations.push({ id: id[0], type: 'rxnorm' });
-          seenIds.add(id[0]);
-        }
-      });
+      nctMatches.forEach(nctId => cite(nctId, 'clinical_trial'));
     }
     
     // 使用 chunk 的 source 作为备选引用
-    if (!seenIds.has(chunk.source)) {
-      citations.push({ 
-        id: chunk.source, 
-        type: chunk.metadata?.type || 'document',
-        title: chunk.metadata?.title 
-      });
-      seenIds.add(chunk.source);
-    }
+    cite(chunk.source, metadata.type || 'document', metadata.title);
   });
   
   return citations;
@@ -0,0 +1,678 @@
+import { z } from 'zod';
+import { zodToJsonSchema, type Options } from 'zod-to-json-schema';
+import { DrugLabelSearchParamsSchema } from './openfda.js';
+import {
+  DrugSearchParamsSchema,
+  DrugIdentifierParamsSchema,
+  GenericNameParamsSchema,
+  AEPipelineRAGParamsSchema,
+  ApproximateMatchParamsSchema,
+  NdcParamsSchema,
+  NormalizeNdcParamsSchema,
+  RxcuiParamsSchema,
+  RxcuiNdcParamsSchema,
+  DrugClassesParamsSchema,
+  ClassMembersParamsSchema,
+  MapIdentifierParamsSchema,
+  EquivalentProductsParamsSchema,
+  DrugLabelParamsSchema,
+  LabelSectionParamsSchema,
+  BrowseATCClassParamsSchema,
+  WarmCacheParamsSchema,
+  LabelQueryParamsSchema,
+  DrugSearchResultSchema,
+  GenericNamesResultSchema,
+  BrandNamesResultSchema,
+  ATCClassificationResultSchema,
+  IngredientsResultSchema,
+  RAGResultSchema,
+  ApproximateMatchResultSchema,
+  NormalizeNdcResultSchema,
+  NdcToRxcuiResultSchema,
+  NdcsForRxcuiResultSchema,
+  NdcPropertiesResultSchema,
+  DrugClassesResultSchema,
+  ClassMembersResultSchema,
+  BrowseATCClassResultSchema,
+  DrugLabelsResultSchema,
+  LabelSectionResultSchema,
+  BoxedWarningResultSchema,
+  EquivalentProductsResultSchema,
+  MapIdentifierResultSchema,
+  RxcuiStatusResultSchema,
+  WarmCacheResultSchema,
+  DrugLabelSearchResultSchema,
+  AdverseReactionsResultSchema,
+  WarningsResultSchema,
+  IndicationsResultSchema,
+  HealthResultSchema,
+  ErrorResultSchema
+} from './schemas.js';
+
+// Single source for the MCP tool list, the REST routes and the OpenAPI
+// document: each entry's Zod schemas validate the arguments and generate
+// the advertised input and output schemas.
+
+// REST route backed by a tool. Path segments (`:name`) and query parameters
+// are tool arguments of the same name unless `params` renames them.
+export interface ToolRoute {
+  method: 'get' | 'post';
+  path: string;
+  // Needed when several routes share a tool; defaults to the tool name
+  operationId?: string;
+  summary: string;
+  description: string;
+  // URL parameter name -> tool argument
+  params?: Record<string, string>;
+  // Query parameters to accept; GET routes default to every argument not in the path
+  query?: string[];
+  examples?: Record<string, string>;
+  // Payloads that mean nothing matched; defaults to a message without an RxCUI
+  isNotFound?: (payload: any) => boolean;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input: z.ZodTypeAny;
+  output: z.AnyZodObject;
+  routes: ToolRoute[];
+}
+
+// Every HTTP route, whether it calls a tool or has its own handler
+export interface HttpRoute extends ToolRoute {
+  operationId: string;
+  tag: 'RxNav' | 'OpenFDA' | 'System';
+  tool?: string;
+  input?: z.ZodTypeAny;
+  output: z.ZodTypeAny;
+}
+
+export type JsonSchema = { type: 'object'; [key: string]: unknown };
+
+const DRUG_EXAMPLE = { name: 'ibuprofen' };
+const NDC_EXAMPLE = { ndc: '50580-451-10' };
+const RXCUI_EXAMPLE = { rxcui: '161' };
+
+const noLabelsFound = (payload: any) => !payload.rxcui || payload.total_results === 0;
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: "search_drug_by_name",
+    description: "Search for drug information by name using RxNav API. Returns RxNorm concept information including RXCUI and related drug details.",
+    input: DrugSearchParamsSchema,
+    output: DrugSearchResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/search',
+      summary: '按名称搜索药物',
+      description: '按药物名称搜索 RxNorm 概念，名称拼写有误时自动纠正',
+      params: { name: 'drug_name' },
+      examples: { name: 'aspirin' }
+    }]
+  },
+  {
+    name: "get_generic_name",
+    description: "Get the generic name(s) for a given drug name or RxCUI. Converts brand names to their corresponding generic names.",
+    input: DrugIdentifierParamsSchema,
+    output: GenericNamesResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/generic-names',
+      summary: '获取通用名',
+      description: '获取药物对应的通用名（成分）',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE
+    }]
+  },
+  {
+    name: "get_brand_names",
+    description: "Get brand names for a given generic drug name. Returns all commercial brand names associated with the generic drug.",
+    input: GenericNameParamsSchema,
+    output: BrandNamesResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/brand-names',
+      summary: '获取商品名',
+      description: '获取通用名对应的商品名和品牌药',
+      params: { name: 'generic_name' },
+      examples: { name: 'acetaminophen' }
+    }]
+  },
+  {
+    name: "get_atc_classification",
+    description: "Get ATC (Anatomical Therapeutic Chemical) classification codes for a given drug name or RxCUI. Returns WHO ATC classification hierarchy information.",
+    input: DrugIdentifierParamsSchema,
+    output: ATCClassificationResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/atc',
+      summary: '获取 ATC 分类',
+      description: '获取药物的 ATC 代码及其第 1-5 级完整层级',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE
+    }]
+  },
+  {
+    name: "ae_pipeline_rag",
+    description: "Advanced RAG pipeline for drug terminology analysis. Fetches, extracts, chunks, retrieves and summarizes RxNav drug terminology data in one call to prevent LLM response truncation.",
+    input: AEPipelineRAGParamsSchema,
+    output: RAGResultSchema,
+    routes: [{
+      method: 'post',
+      path: '/rxnav/rag',
+      summary: 'RxNav RAG 检索',
+      description: '汇总 RxNav 术语信息并按查询检索最相关的片段与摘要',
+      isNotFound: () => false
+    }]
+  },
+  {
+    name: "get_drug_ingredients",
+    description: "Get active ingredients for a given drug name or RxCUI. Returns ingredient information including strength and dosage form details.",
+    input: DrugIdentifierParamsSchema,
+    output: IngredientsResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/ingredients',
+      summary: '获取药物成分',
+      description: '获取药物的活性成分及规格',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE
+    }]
+  },
+  {
+    name: "approximate_match",
+    description: "Find RxNorm concepts that approximately match a possibly misspelled drug name. Returns ranked candidates with match scores and RxCUIs, plus spelling suggestions.",
+    input: ApproximateMatchParamsSchema,
+    output: ApproximateMatchResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/approximate/:term',
+      summary: '近似匹配',
+      description: '为拼写有误或不完整的药物名称返回排序后的候选概念',
+      examples: { term: 'ibuprophen' }
+    }]
+  },
+  {
+    name: "normalize_ndc",
+    description: "Normalize a National Drug Code (10 or 11 digits, with or without hyphens) to the 11-digit 5-4-2 form used by RxNorm.",
+    input: NormalizeNdcParamsSchema,
+    output: NormalizeNdcResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/ndc/:ndc/normalize',
+      summary: '规范化 NDC',
+      description: '将 NDC 转换为 11 位 5-4-2 格式',
+      examples: NDC_EXAMPLE
+    }]
+  },
+  {
+    name: "ndc_to_rxcui",
+    description: "Map a National Drug Code to its RxNorm concept. Returns the RxCUI, the NDC status (active, obsolete, alien or unknown) and its RxCUI history.",
+    input: NdcParamsSchema,
+    output: NdcToRxcuiResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/ndc/:ndc',
+      summary: 'NDC 映射到 RxCUI',
+      description: '将 NDC 映射到 RxCUI，并返回其状态与历史',
+      examples: NDC_EXAMPLE
+    }]
+  },
+  {
+    name: "get_ndcs_for_rxcui",
+    description: "List the National Drug Codes linked to an RxCUI, including historical NDCs with their start and end dates.",
+    input: RxcuiNdcParamsSchema,
+    output: NdcsForRxcuiResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/rxcui/:rxcui/ndcs',
+      summary: '获取 RxCUI 的 NDC',
+      description: '列出 RxCUI 当前及历史关联的 NDC',
+      examples: { rxcui: '209387' }
+    }]
+  },
+  {
+    name: "get_ndc_properties",
+    description: "Get properties of a National Drug Code such as packaging, labeler, marketing status and marketing category.",
+    input: NdcParamsSchema,
+    output: NdcPropertiesResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/ndc/:ndc/properties',
+      summary: '获取 NDC 属性',
+      description: '获取 NDC 的生产商、上市状态、上市类别和包装信息',
+      examples: NDC_EXAMPLE
+    }]
+  },
+  {
+    name: "get_drug_classes",
+    description: "Get pharmacologic class memberships for a drug name, RxCUI or NDC from RxClass across ATC, MeSH pharmacologic action, FDA EPC, mechanism of action, physiologic effect, VA class and MED-RT.",
+    input: DrugClassesParamsSchema,
+    output: DrugClassesResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/classes',
+      summary: '获取药物类别',
+      description: '通过 RxClass 获取药物在各分类体系中的类别归属',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE
+    }]
+  },
+  {
+    name: "get_class_members",
+    description: "List the RxNorm drugs that are members of a class from RxClass, filtered by term type.",
+    input: ClassMembersParamsSchema,
+    output: ClassMembersResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/classes/:system/:classId/members',
+      summary: '获取类别成员',
+      description: '列出某个类别下的成员药物',
+      params: { system: 'class_system', classId: 'class_id' },
+      examples: { system: 'atc', classId: 'C09AA' }
+    }]
+  },
+  {
+    name: "browse_atc_class",
+    description: "Browse an ATC class at any level (e.g. 'C09' or 'C09AA'): returns its lineage, child classes and the RxNorm ingredients and clinical drugs classified under it, with paging.",
+    input: BrowseATCClassParamsSchema,
+    output: BrowseATCClassResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/atc/:code',
+      summary: '浏览 ATC 分类',
+      description: '返回 ATC 类别的层级路径、下一级子类及成员药物（分页）',
+      params: { code: 'atc_code' },
+      examples: { code: 'C09AA' }
+    }]
+  },
+  {
+    name: "search_drug_labels",
+    description: "Find FDA drug labels (OpenFDA) for a drug, matched by the RxCUIs of its clinical and branded products, with the sections each label contains.",
+    input: DrugLabelParamsSchema,
+    output: DrugLabelsResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/labels',
+      summary: '按 RxCUI 查询 FDA 说明书',
+      description: '通过 openfda.rxcui 匹配药物的 FDA 说明书',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE,
+      isNotFound: noLabelsFound
+    }]
+  },
+  {
+    name: "get_label_section",
+    description: "Get one section (e.g. adverse_reactions, contraindications, indications_and_usage) of the FDA labels for a drug, matched by RxCUI.",
+    input: LabelSectionParamsSchema,
+    output: LabelSectionResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/labels/:section',
+      summary: '获取 FDA 说明书章节',
+      description: '按 RxCUI 匹配 FDA 说明书并返回指定章节',
+      params: { name: 'drug_identifier' },
+      examples: { ...DRUG_EXAMPLE, section: 'adverse_reactions' },
+      isNotFound: noLabelsFound
+    }]
+  },
+  {
+    name: "get_boxed_warning",
+    description: "Get the boxed (black box) warning from the FDA labels for a drug, matched by RxCUI, and whether any matched label carries one.",
+    input: DrugLabelParamsSchema,
+    output: BoxedWarningResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/boxed-warning',
+      summary: '获取黑框警告',
+      description: '按 RxCUI 匹配 FDA 说明书并返回黑框警告',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE,
+      isNotFound: noLabelsFound
+    }]
+  },
+  {
+    name: "get_equivalent_products",
+    description: "Group the clinical (SCD) and branded (SBD) products sharing a drug's ingredients, strengths and dose form, with packs and NDCs under each SCD, marking the group the input drug belongs to.",
+    input: EquivalentProductsParamsSchema,
+    output: EquivalentProductsResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/drug/:name/equivalents',
+      summary: '获取等效产品',
+      description: '按临床药物（SCD）分组列出成分、规格和剂型相同的品牌药、包装及 NDC',
+      params: { name: 'drug_identifier' },
+      examples: DRUG_EXAMPLE
+    }]
+  },
+  {
+    name: "map_identifier",
+    description: "Map an RxCUI to its SNOMED CT, MeSH, VANDF, MMSL, Gold Standard and DrugBank codes, or map a code from one of those vocabularies back to RxCUIs.",
+    input: MapIdentifierParamsSchema,
+    output: MapIdentifierResultSchema,
+    routes: [
+      {
+        method: 'get',
+        path: '/rxnav/rxcui/:rxcui/codes',
+        operationId: 'map_rxcui_to_codes',
+        summary: 'RxCUI 映射到其他术语体系',
+        description: '返回 RxCUI 关联的 SNOMED CT、MeSH、VANDF、MMSL、GS 和 DrugBank 代码',
+        query: ['sources'],
+        examples: RXCUI_EXAMPLE
+      },
+      {
+        method: 'get',
+        path: '/rxnav/codes/:source/:code',
+        operationId: 'map_code_to_rxcui',
+        summary: '其他术语体系代码映射到 RxCUI',
+        description: '将 SNOMED CT、MeSH、VANDF、MMSL、GS 或 DrugBank 代码映射到 RxCUI',
+        query: [],
+        examples: { source: 'snomedct', code: '387517004' }
+      }
+    ]
+  },
+  {
+    name: "get_rxcui_status",
+    description: "Report the RxNorm history status of an RxCUI (active, obsolete, remapped, quantified or never active), with the concepts it was remapped to, the relevant dates and source releases.",
+    input: RxcuiParamsSchema,
+    output: RxcuiStatusResultSchema,
+    routes: [{
+      method: 'get',
+      path: '/rxnav/rxcui/:rxcui/status',
+      summary: '获取 RxCUI 历史状态',
+      description: '查询 RxCUI 是否有效、已废弃、已重新映射、已量化或从未生效',
+      examples: RXCUI_EXAMPLE
+    }]
+  },
+  {
+    name: "warm_cache",
+    description: "Pre-load the RxNav response cache for a list of drug names so later lookups for them are served locally.",
+    input: WarmCacheParamsSchema,
+    output: WarmCacheResultSchema,
+    routes: [{
+      method: 'post',
+      path: '/rxnav/cache/warm',
+      summary: '预热缓存',
+      description: '预先加载一组药物的 RxNav 响应缓存',
+      isNotFound: () => false
+    }]
+  }
+];
+
+// Routes of the HTTP server that query OpenFDA by name rather than call a tool
+const OPENFDA_ROUTES: HttpRoute[] = [
+  {
+    method: 'get',
+    path: '/drug-labels',
+    operationId: 'search_labels',
+    tag: 'OpenFDA',
+    summary: '搜索FDA药品标签',
+    description: '根据搜索条件查询药品标签信息',
+    input: DrugLabelSearchParamsSchema,
+    output: DrugLabelSearchResultSchema,
+    examples: { search: 'aspirin', count: 'openfda.manufacturer_name.exact' }
+  },
+  {
+    method: 'get',
+    path: '/drug/:name/adverse-reactions',
+    operationId: 'get_adverse_reactions',
+    tag: 'OpenFDA',
+    summary: '获取药物不良反应',
+    description: '查询指定药物的不良反应和禁忌症信息',
+    input: LabelQueryParamsSchema,
+    output: AdverseReactionsResultSchema,
+    examples: DRUG_EXAMPLE
+  },
+  {
+    method: 'get',
+    path: '/drug/:name/warnings',
+    operationId: 'get_warnings',
+    tag: 'OpenFDA',
+    summary: '获取药物警告信息',
+    description: '查询指定药物的警告、注意事项和黑框警告',
+    input: LabelQueryParamsSchema,
+    output: WarningsResultSchema,
+    examples: { name: 'tylenol' }
+  },
+  {
+    method: 'get',
+    path: '/drug/:name/indications',
+    operationId: 'get_indications',
+    tag: 'OpenFDA',
+    summary: '获取药物适应症',
+    description: '查询指定药物的适应症和用法信息',
+    input: LabelQueryParamsSchema,
+    output: IndicationsResultSchema,
+    examples: { name: 'aspirin' }
+  },
+  {
+    method: 'get',
+    path: '/health',
+    operationId: 'health',
+    tag: 'System',
+    summary: '健康检查',
+    description: '服务存活检查',
+    output: HealthResultSchema
+  }
+];
+
+export const HTTP_ROUTES: HttpRoute[] = [
+  ...OPENFDA_ROUTES,
+  ...TOOLS.flatMap(tool => tool.routes.map(route => ({
+    ...route,
+    operationId: route.operationId || tool.name,
+    tag: 'RxNav' as const,
+    tool: tool.name,
+    input: tool.input,
+    output: tool.output
+  })))
+];
+
+/**
+ * JSON Schema of a Zod schema, inlined (no $refs) and without the
+ * `additionalProperties: true` zod-to-json-schema adds to non-strict objects.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const options: Partial<Options> = {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict'
+  };
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, options);
+  return stripOpenObjects(jsonSchema) as JsonSchema;
+}
+
+function stripOpenObjects(value: any): any {
+  if (Array.isArray(value)) return value.map(stripOpenObjects);
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'additionalProperties' && child === true) continue;
+    result[key] = stripOpenObjects(child);
+  }
+  return result;
+}
+
+export function listMcpTools() {
+  return TOOLS.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.input),
+    outputSchema: toJsonSchema(tool.output)
+  }));
+}
+
+// Fields of an object schema, looking through refinements
+function objectShape(schema: z.ZodTypeAny | undefined): Record<string, z.ZodTypeAny> {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  return current instanceof z.ZodObject ? current.shape : {};
+}
+
+// The schema under optional, default, nullable and refinement wrappers
+function baseType(field: z.ZodTypeAny): z.ZodTypeAny {
+  let current = field;
+  while (
+    current instanceof z.ZodOptional || current instanceof z.ZodNullable ||
+    current instanceof z.ZodDefault || current instanceof z.ZodEffects
+  ) {
+    current = current instanceof z.ZodDefault ? current.removeDefault()
+      : current instanceof z.ZodEffects ? current.innerType()
+      : current.unwrap();
+  }
+  return current;
+}
+
+interface RouteParameter {
+  name: string;
+  arg: string;
+  in: 'path' | 'query';
+  field: z.ZodTypeAny;
+}
+
+export function routeParameters(route: HttpRoute): RouteParameter[] {
+  const shape = objectShape(route.input);
+  const argFor = (name: string) => route.params?.[name] || name;
+  const pathNames = [...route.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+  const pathArgs = new Set(pathNames.map(argFor));
+
+  const parameters: RouteParameter[] = pathNames
+    .filter(name => shape[argFor(name)])
+    .map(name => ({ name, arg: argFor(name), in: 'path', field: shape[argFor(name)] }));
+
+  if (route.method === 'get') {
+    const urlNames = Object.fromEntries(Object.entries(route.params || {}).map(([name, arg]) => [arg, name]));
+    const queryNames = route.query || Object.keys(shape)
+      .filter(arg => !pathArgs.has(arg))
+      .map(arg => urlNames[arg] || arg);
+
+    for (const name of queryNames) {
+      parameters.push({ name, arg: argFor(name), in: 'query', field: shape[argFor(name)] });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Tool arguments from the URL. Query strings only carry text, so array
+ * arguments are read as comma-separated lists and booleans as 'true'/'false';
+ * numbers are left to the schemas' coercion.
+ */
+export function readRouteArgs(
+  route: HttpRoute,
+  pathValues: Record<string, string>,
+  queryValues: Record<string, unknown>
+): Record<string, any> {
+  const args: Record<string, any> = {};
+
+  for (const param of routeParameters(route)) {
+    const value = param.in === 'path' ? pathValues[param.name] : queryValues[param.name];
+    if (typeof value !== 'string') continue;
+
+    const type = baseType(param.field);
+    if (type instanceof z.ZodArray) {
+      args[param.arg] = value.split(',').map(v => v.trim()).filter(Boolean);
+    } else if (type instanceof z.ZodBoolean) {
+      args[param.arg] = value === 'true';
+    } else {
+      args[param.arg] = value;
+    }
+  }
+
+  return args;
+}
+
+function openApiOperation(route: HttpRoute) {
+  // Property schemas come from the whole input object, where optionality is expressed by `required`
+  const inputSchema: Record<string, any> = route.input ? toJsonSchema(route.input) : {};
+
+  const parameters = routeParameters(route).map(param => {
+    const { description, ...schema } = inputSchema.properties?.[param.arg] || {};
+    const isArray = baseType(param.field) instanceof z.ZodArray;
+
+    return {
+      name: param.name,
+      in: param.in,
+      required: param.in === 'path' || (inputSchema.required || []).includes(param.arg),
+      ...(description !== undefined && { description }),
+      ...(isArray && { style: 'form', explode: false }),
+      schema,
+      ...(route.examples?.[param.name] && { example: route.examples[param.name] })
+    };
+  });
+
+  const json = (schema: z.ZodTypeAny) => ({ "application/json": { schema: toJsonSchema(schema) } });
+  const errors = {
+    "400": { description: "请求参数错误", content: json(ErrorResultSchema) },
+    "404": { description: "未找到匹配的药物或数据", content: json(ErrorResultSchema) },
+    "502": { description: "上游 RxNav 或 OpenFDA 服务出错", content: json(ErrorResultSchema) }
+  };
+
+  return {
+    summary: route.summary,
+    description: route.description,
+    tags: [route.tag],
+    operationId: route.operationId,
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.method === 'post' && route.input && {
+      requestBody: { required: true, content: json(route.input) }
+    }),
+    responses: {
+      "200": {
+        description: route.tool ? "成功，返回与同名 MCP 工具相同的 JSON" : "成功",
+        content: json(route.output)
+      },
+      ...(route.input && errors)
+    }
+  };
+}
+
+/**
+ * Pass `publicPaths` when API keys are required; every other route is then
+ * documented as needing a bearer token or X-API-Key header.
+ */
+export function buildOpenApiDocument(serverUrl = "http://localhost:3000", publicPaths?: string[]) {
+  const paths: Record<string, any> = {};
+
+  for (const route of HTTP_ROUTES) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const operation: Record<string, any> = openApiOperation(route);
+    if (publicPaths?.includes(route.path)) {
+      operation.security = [];
+    }
+    paths[path] = { ...paths[path], [route.method]: operation };
+  }
+
+  const auth = publicPaths && {
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" }
+      }
+    },
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }]
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "OpenFDA Drug Labels and RxNav API",
+      description: "FDA药品标签信息查询API，基于OpenFDA数据源；/rxnav 下的路由提供与 MCP 服务器相同的 RxNav 术语工具",
+      version: "0.1.0"
+    },
+    servers: [
+      { url: serverUrl, description: "本地开发服务器" }
+    ],
+    tags: [
+      { name: "OpenFDA", description: "按药物名称检索 FDA 药品说明书" },
+      { name: "RxNav", description: "RxNorm 术语工具，参数与结果与 MCP 工具一致" },
+      { name: "System", description: "服务状态" }
+    ],
+    ...auth,
+    paths
+  };
+}
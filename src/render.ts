@@ -0,0 +1,83 @@
+// Plain-text rendering of tool results. Clients that understand
+// structuredContent read the JSON; the text block is what a model or person
+// reads, so it is laid out as an indented outline instead of JSON.
+
+type Scalar = string | number | boolean | null | undefined;
+
+function isScalar(value: unknown): value is Scalar {
+  return value === null || typeof value !== 'object';
+}
+
+function isInline(value: unknown): boolean {
+  return isScalar(value) && !(typeof value === 'string' && value.includes('\n'));
+}
+
+function formatScalar(value: Scalar): string {
+  return value === null || value === undefined ? 'none' : String(value);
+}
+
+function definedEntries(value: object): Array<[string, unknown]> {
+  return Object.entries(value).filter(([, v]) => v !== undefined);
+}
+
+function renderEntry(key: string, value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (isScalar(value)) {
+    if (isInline(value)) {
+      return [`${pad}${key}: ${formatScalar(value)}`];
+    }
+    // Label sections and other long text keep their own line breaks
+    return [`${pad}${key}:`, ...String(value).split('\n').map(line => `${pad}  ${line}`)];
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return [`${pad}${key}: (none)`];
+    }
+    if (value.every(isInline)) {
+      return [`${pad}${key}: ${value.map(formatScalar).join(', ')}`];
+    }
+    return [`${pad}${key}:`, ...value.flatMap(item => renderItem(item, indent + 2))];
+  }
+
+  return [`${pad}${key}:`, ...renderObject(value as object, indent + 2)];
+}
+
+function renderItem(item: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (isScalar(item) || Array.isArray(item)) {
+    const lines = renderEntry('-', item, indent);
+    lines[0] = lines[0].replace(`${pad}-:`, `${pad}-`);
+    return lines;
+  }
+
+  const entries = definedEntries(item as object);
+  // Records of plain fields (concepts, NDCs, classes) fit on one line
+  if (entries.every(([, v]) => isInline(v))) {
+    return [`${pad}- ${entries.map(([k, v]) => `${k}: ${formatScalar(v as Scalar)}`).join(', ')}`];
+  }
+
+  const lines = renderObject(item as object, indent + 2);
+  lines[0] = `${pad}- ${lines[0].trimStart()}`;
+  return lines;
+}
+
+function renderObject(value: object, indent: number): string[] {
+  return definedEntries(value).flatMap(([key, v]) => renderEntry(key, v, indent));
+}
+
+/**
+ * Renders a tool's JSON payload as readable text with the same field names,
+ * so nothing in structuredContent is missing from the text.
+ */
+export function renderToolResult(value: unknown): string {
+  if (isScalar(value)) {
+    return formatScalar(value);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => renderItem(item, 0)).join('\n');
+  }
+  return renderObject(value, 0).join('\n');
+}
@@ -0,0 +1,207 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ATC_INDEX, ATCCode } from './atc.js';
+import { BrowseATCClassResult, RxcuiRemap, RxcuiStatusResult } from './schemas.js';
+
+// MCP resources: RxNorm concepts and ATC classes addressed by URI, so clients
+// can attach them as context and follow links between them without tool
+// calls. Every resource reads as a Markdown card plus the same data as JSON.
+
+// MCP's error code for a resource URI that names nothing
+export const RESOURCE_NOT_FOUND = -32002;
+
+export type ResourceTarget =
+  | { kind: 'concept'; rxcui: string }
+  | { kind: 'related'; rxcui: string }
+  | { kind: 'atc'; code: string };
+
+export interface RelatedConceptGroup {
+  termType: string;
+  label: string;
+  concepts: Array<{ rxcui: string; name: string; termType: string }>;
+}
+
+export interface RelatedConcepts {
+  rxcui: string;
+  name: string | null;
+  // Set when the requested RxCUI was retired and its replacement was used
+  rxcui_remap?: RxcuiRemap;
+  groups: RelatedConceptGroup[];
+  total_found: number;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'rxnorm://concept/{rxcui}',
+    name: 'rxnorm-concept',
+    title: 'RxNorm concept',
+    description: 'Name, term type and status of an RxNorm concept, including where a retired RxCUI was remapped',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'rxnorm://concept/{rxcui}/related',
+    name: 'rxnorm-related',
+    title: 'Related RxNorm concepts',
+    description: 'Ingredients, brand names, dose forms and products related to an RxNorm concept, grouped by term type',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'atc://{code}',
+    name: 'atc-class',
+    title: 'ATC class',
+    description: 'An ATC class at any level with its parent, subclasses and member drugs',
+    mimeType: 'text/markdown'
+  }
+];
+
+const TERM_TYPE_LABELS: Record<string, string> = {
+  IN: 'Ingredients',
+  PIN: 'Precise ingredients',
+  MIN: 'Multiple ingredients',
+  BN: 'Brand names',
+  SCDC: 'Clinical drug components',
+  SBDC: 'Branded drug components',
+  SCDF: 'Clinical dose forms',
+  SBDF: 'Branded dose forms',
+  SCDG: 'Clinical dose form groups',
+  SBDG: 'Branded dose form groups',
+  SCD: 'Clinical drugs',
+  SBD: 'Branded drugs',
+  GPCK: 'Generic packs',
+  BPCK: 'Branded packs',
+  DF: 'Dose forms',
+  DFG: 'Dose form groups',
+};
+
+// Related groups are shown from ingredients down to packs
+const TERM_TYPE_ORDER = Object.keys(TERM_TYPE_LABELS);
+
+export function termTypeLabel(termType: string): string {
+  return TERM_TYPE_LABELS[termType] || termType;
+}
+
+export function sortRelatedGroups(groups: RelatedConceptGroup[]): RelatedConceptGroup[] {
+  const rank = (termType: string) => {
+    const index = TERM_TYPE_ORDER.indexOf(termType);
+    return index === -1 ? TERM_TYPE_ORDER.length : index;
+  };
+  return [...groups].sort((a, b) => rank(a.termType) - rank(b.termType));
+}
+
+export function conceptUri(rxcui: string): string {
+  return `rxnorm://concept/${rxcui}`;
+}
+
+export function relatedUri(rxcui: string): string {
+  return `rxnorm://concept/${rxcui}/related`;
+}
+
+export function atcUri(code: string): string {
+  return `atc://${code}`;
+}
+
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  const concept = uri.match(/^rxnorm:\/\/concept\/(\d+)(\/related)?$/);
+  if (concept) {
+    return concept[2] ? { kind: 'related', rxcui: concept[1] } : { kind: 'concept', rxcui: concept[1] };
+  }
+
+  const atc = uri.match(/^atc:\/\/([A-Z](\d{2}([A-Z]([A-Z](\d{2})?)?)?)?)$/i);
+  if (atc) {
+    return { kind: 'atc', code: atc[1].toUpperCase() };
+  }
+
+  return null;
+}
+
+/**
+ * The fourteen anatomical main groups, as entry points for browsing the
+ * ATC tree; every other resource is reached through the templates.
+ */
+export function listATCRootResources(): Resource[] {
+  return Object.keys(ATC_INDEX)
+    .filter(code => code.length === 1)
+    .sort()
+    .map(code => ({
+      uri: atcUri(code),
+      name: `atc-${code}`,
+      title: `${code} ${ATC_INDEX[code]}`,
+      description: `ATC anatomical main group ${code}`,
+      mimeType: 'text/markdown'
+    }));
+}
+
+function conceptLink(concept: { rxcui: string; name: string | null }): string {
+  return `[${concept.name || `RxCUI ${concept.rxcui}`}](${conceptUri(concept.rxcui)})`;
+}
+
+function atcLink(atc: ATCCode): string {
+  return `[${atc.code} ${atc.name}](${atcUri(atc.code)})`;
+}
+
+export function renderConceptCard(concept: RxcuiStatusResult): string {
+  const lines = [
+    `# ${concept.name || `RxCUI ${concept.rxcui}`}`,
+    '',
+    '| | |',
+    '|---|---|',
+    `| RxCUI | ${concept.rxcui} |`,
+    `| Term type | ${concept.termType ? `${concept.termType} (${termTypeLabel(concept.termType)})` : '—'} |`,
+    `| Status | ${concept.status}${concept.is_current ? '' : ' (not current)'} |`,
+    `| Source | ${concept.source || '—'} |`,
+  ];
+
+  if (concept.active_start_date || concept.active_end_date) {
+    lines.push(`| Active | ${concept.active_start_date || '?'} – ${concept.active_end_date || 'present'} |`);
+  }
+
+  if (concept.remapped_to.length > 0) {
+    lines.push('', `## Remapped to${concept.remapped_date ? ` (${concept.remapped_date})` : ''}`, '');
+    lines.push(...concept.remapped_to.map(target => `- ${conceptLink(target)} (${target.termType})`));
+  }
+
+  lines.push('', `[Related concepts](${relatedUri(concept.rxcui)})`);
+  return lines.join('\n');
+}
+
+export function renderRelatedCard(related: RelatedConcepts): string {
+  const lines = [`# Concepts related to ${conceptLink(related)}`];
+
+  if (related.rxcui_remap) {
+    lines.push('', `> ${related.rxcui_remap.message}`);
+  }
+
+  if (related.groups.length === 0) {
+    lines.push('', 'No related concepts found.');
+  }
+
+  for (const group of related.groups) {
+    lines.push('', `## ${group.label} (${group.termType})`, '');
+    lines.push(...group.concepts.map(concept => `- ${conceptLink(concept)}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function renderATCCard(browse: BrowseATCClassResult): string {
+  const atc = browse.atc_class;
+  const lines = [`# ${atc.code} ${atc.name}`, '', `Level ${atc.level}${atc.path ? ` · ${atc.path}` : ''}`];
+
+  const parent = atc.lineage && atc.lineage.length > 1 ? atc.lineage[atc.lineage.length - 2] : undefined;
+  if (parent) {
+    lines.push('', `Parent: ${atcLink(parent)}`);
+  }
+
+  if (atc.children && atc.children.length > 0) {
+    lines.push('', '## Subclasses', '');
+    lines.push(...atc.children.map(child => `- ${atcLink(child)}`));
+  }
+
+  if (atc.members && atc.members.length > 0) {
+    const { total_members } = browse.pagination;
+    const shown = atc.members.length < total_members ? ` (${atc.members.length} of ${total_members})` : '';
+    lines.push('', `## Members${shown}`, '');
+    lines.push(...atc.members.map(member => `- ${conceptLink(member)} (${member.termType})`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,733 @@
+import { createReadStream, promises as fs } from "fs";
+import { createInterface } from "readline";
+import { join } from "path";
+
+// Concept as exposed in RxNav `conceptProperties`
+export interface RxNormConcept {
+  rxcui: string;
+  name: string;
+  tty: string;
+  synonym: string;
+  suppress: string;
+}
+
+interface RxNormRelation {
+  rxcui: string;
+  rela: string;
+}
+
+interface RxNormAttribute {
+  atn: string;
+  atv: string;
+}
+
+// Code of a concept in another source vocabulary, e.g. SNOMEDCT_US 387517004
+interface SourceCode {
+  sab: string;
+  code: string;
+}
+
+// Row of RXNCUI.RRF: a retired RxCUI and the concept it was merged into
+interface RetiredRxcui {
+  rxcui: string;
+  versionStart: string;
+  versionEnd: string;
+  mergedInto: string;
+}
+
+// Serialized form of an imported release, written by `npm run import:rrf`
+export interface RxNormStoreSnapshot {
+  version: 1;
+  concepts: RxNormConcept[];
+  names: Array<[string, string[]]>;
+  relations: Array<[string, RxNormRelation[]]>;
+  attributes: Array<[string, RxNormAttribute[]]>;
+  atc: Array<[string, string[]]>;
+  ndcs?: Array<[string, string[]]>;
+  retired?: Array<[string, RetiredRxcui[]]>;
+  codes?: Array<[string, SourceCode[]]>;
+}
+
+// RRF column positions (see the RxNorm Technical Documentation, section 12)
+const CONSO = { RXCUI: 0, LAT: 1, RXAUI: 7, SAB: 11, TTY: 12, CODE: 13, STR: 14, SUPPRESS: 16 };
+const REL = { RXCUI1: 0, RXCUI2: 4, RELA: 7, SAB: 10 };
+const SAT = { RXCUI: 0, ATN: 8, SAB: 9, ATV: 10 };
+const CUI = { CUI1: 0, VER_START: 1, VER_END: 2, CUI2: 4 };
+
+// Term types the RxNav `drugs` resource returns, in its response order
+const DRUG_TTYS = ['BPCK', 'GPCK', 'SBD', 'SCD'];
+
+// Rough position of each term type in the RxNorm graph: ingredients and brand
+// names at the bottom, components and forms in the middle, drugs and packs on top.
+const TTY_LEVEL: Record<string, number> = {
+  IN: 0, PIN: 0, MIN: 0, BN: 0,
+  SCDC: 1, SCDF: 1, SCDG: 1, SBDC: 1, SBDF: 1, SBDG: 1, DF: 1, DFG: 1,
+  SCD: 2, SBD: 2,
+  GPCK: 3, BPCK: 3,
+};
+
+const MAX_RELATED_DEPTH = 4;
+
+// RXNSAT attributes surfaced through allProperties.json, keyed by ATN
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  RXN_STRENGTH: 'Strength',
+  RXN_AVAILABLE_STRENGTH: 'Available Strength',
+  RXN_BN_CARDINALITY: 'BN Cardinality',
+  RXN_QUANTITY: 'Quantity',
+  RXN_HUMAN_DRUG: 'Human Drug',
+};
+
+const SYNONYM_TTYS = new Set(['SY', 'TMSY', 'PSN']);
+
+// Source vocabularies whose RXNCONSO codes are kept, mapped to the RxNav
+// identifier type that names them in CODES properties and `rxcui.json?idtype=`
+const SOURCE_CODE_TYPES: Record<string, string> = {
+  SNOMEDCT_US: 'SNOMEDCT',
+  MSH: 'MESH',
+  VANDF: 'VUID',
+  MMSL: 'MMSL_CODE',
+  GS: 'GS',
+  DRUGBANK: 'DRUGBANK',
+};
+
+// Minimum similarity (0-100) for a name to count as an approximate match
+const MIN_APPROXIMATE_SCORE = 60;
+
+/**
+ * Indexed, in-memory copy of an RxNorm full release that answers the subset of
+ * RxNav REST endpoints used by the server with the same JSON shapes.
+ */
+export class RxNormStore {
+  private concepts = new Map<string, RxNormConcept>();
+  private names = new Map<string, Set<string>>();
+  private relations = new Map<string, RxNormRelation[]>();
+  private attributes = new Map<string, RxNormAttribute[]>();
+  private atc = new Map<string, string[]>();
+  private ndcs = new Map<string, string[]>();
+  private ndcIndex = new Map<string, string>();
+  private retired = new Map<string, RetiredRxcui[]>();
+  private codes = new Map<string, SourceCode[]>();
+
+  get size(): number {
+    return this.concepts.size;
+  }
+
+  /**
+   * Loads either a snapshot written by `save()` (a `.json` file) or a
+   * directory holding RXNCONSO.RRF, RXNREL.RRF and RXNSAT.RRF (optionally
+   * under an `rrf/` subdirectory, as in the release zip). RXNCUI.RRF, the
+   * history of retired RxCUIs, is read when present.
+   */
+  static async load(path: string): Promise<RxNormStore> {
+    if (path.endsWith('.json')) {
+      const snapshot = JSON.parse(await fs.readFile(path, 'utf8')) as RxNormStoreSnapshot;
+      return RxNormStore.fromSnapshot(snapshot);
+    }
+    return RxNormStore.fromRRF(path);
+  }
+
+  static async fromRRF(dir: string): Promise<RxNormStore> {
+    const rrfDir = await resolveRRFDir(dir);
+    const store = new RxNormStore();
+
+    await readRRF(join(rrfDir, 'RXNCONSO.RRF'), fields => store.addAtom(fields));
+    await readRRF(join(rrfDir, 'RXNREL.RRF'), fields => store.addRelation(fields));
+    await readRRF(join(rrfDir, 'RXNSAT.RRF'), fields => store.addAttribute(fields));
+
+    try {
+      await fs.access(join(rrfDir, 'RXNCUI.RRF'));
+      await readRRF(join(rrfDir, 'RXNCUI.RRF'), fields => store.addRetired(fields));
+    } catch {
+      // Older or trimmed releases ship without RXNCUI.RRF
+    }
+
+    return store;
+  }
+
+  static fromSnapshot(snapshot: RxNormStoreSnapshot): RxNormStore {
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported RxNorm snapshot version: ${snapshot.version}`);
+    }
+
+    const store = new RxNormStore();
+    snapshot.concepts.forEach(concept => store.concepts.set(concept.rxcui, concept));
+    snapshot.names.forEach(([name, rxcuis]) => store.names.set(name, new Set(rxcuis)));
+    snapshot.relations.forEach(([rxcui, rels]) => store.relations.set(rxcui, rels));
+    snapshot.attributes.forEach(([rxcui, attrs]) => store.attributes.set(rxcui, attrs));
+    snapshot.atc.forEach(([rxcui, codes]) => store.atc.set(rxcui, codes));
+    (snapshot.ndcs || []).forEach(([rxcui, ndcs]) => ndcs.forEach(ndc => store.addNdc(rxcui, ndc)));
+    (snapshot.retired || []).forEach(([rxcui, rows]) => store.retired.set(rxcui, rows));
+    (snapshot.codes || []).forEach(([rxcui, codes]) => store.codes.set(rxcui, codes));
+    return store;
+  }
+
+  toSnapshot(): RxNormStoreSnapshot {
+    return {
+      version: 1,
+      concepts: [...this.concepts.values()],
+      names: [...this.names.entries()].map(([name, rxcuis]) => [name, [...rxcuis]]),
+      relations: [...this.relations.entries()],
+      attributes: [...this.attributes.entries()],
+      atc: [...this.atc.entries()],
+      ndcs: [...this.ndcs.entries()],
+      retired: [...this.retired.entries()],
+      codes: [...this.codes.entries()],
+    };
+  }
+
+  async save(path: string): Promise<void> {
+    await fs.writeFile(path, JSON.stringify(this.toSnapshot()), 'utf8');
+  }
+
+  getConcept(rxcui: string): RxNormConcept | undefined {
+    return this.concepts.get(rxcui);
+  }
+
+  findByName(name: string): RxNormConcept[] {
+    const rxcuis = this.names.get(name.trim().toLowerCase());
+    if (!rxcuis) return [];
+    return [...rxcuis]
+      .map(rxcui => this.concepts.get(rxcui))
+      .filter((concept): concept is RxNormConcept => !!concept);
+  }
+
+  /**
+   * Names in the store ranked by edit-distance similarity to `term`, as a
+   * local stand-in for RxNav's approximateTerm and spellingsuggestions.
+   */
+  approximate(term: string, maxEntries: number): Array<{ name: string; rxcuis: string[]; score: number }> {
+    const needle = term.trim().toLowerCase();
+    const matches: Array<{ name: string; rxcuis: string[]; score: number }> = [];
+
+    for (const [name, rxcuis] of this.names) {
+      // Names far longer or shorter than the term cannot reach the minimum score
+      if (Math.abs(name.length - needle.length) > needle.length) continue;
+
+      const distance = levenshtein(needle, name);
+      const score = Math.round(100 * (1 - distance / Math.max(needle.length, name.length)));
+      if (score >= MIN_APPROXIMATE_SCORE) {
+        matches.push({ name, rxcuis: [...rxcuis], score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+      .slice(0, maxEntries);
+  }
+
+  /**
+   * Concepts of the given term types reachable from `rxcui`. Paths only move
+   * monotonically up or down the graph and never take two sideways steps in
+   * a row, so a drug does not pick up ingredients of products that merely
+   * share one of its components.
+   */
+  related(rxcui: string, ttys?: string[]): RxNormConcept[] {
+    const start = this.concepts.get(rxcui);
+    if (!start) return [];
+
+    const wanted = ttys ? new Set(ttys) : null;
+    const found = new Map<string, RxNormConcept>();
+    const seen = new Set<string>([rxcui]);
+    let frontier = [{ rxcui, direction: 0, sideways: false }];
+
+    for (let depth = 0; depth < MAX_RELATED_DEPTH && frontier.length > 0; depth++) {
+      const next: typeof frontier = [];
+
+      for (const node of frontier) {
+        const fromLevel = levelOf(this.concepts.get(node.rxcui));
+
+        for (const rel of this.relations.get(node.rxcui) || []) {
+          const target = this.concepts.get(rel.rxcui);
+          if (!target || seen.has(target.rxcui)) continue;
+
+          const step = Math.sign(levelOf(target) - fromLevel);
+          if (step === 0 && node.sideways) continue;
+          if (step !== 0 && node.direction !== 0 && step !== node.direction) continue;
+
+          seen.add(target.rxcui);
+          if (!wanted || wanted.has(target.tty)) {
+            found.set(target.rxcui, target);
+          }
+          next.push({
+            rxcui: target.rxcui,
+            direction: step !== 0 ? step : node.direction,
+            sideways: step === 0,
+          });
+        }
+      }
+
+      frontier = next;
+    }
+
+    return [...found.values()];
+  }
+
+  /**
+   * Answers an RxNav REST endpoint (path and query string relative to
+   * `/REST`) from the local store.
+   */
+  handle(endpoint: string): any {
+    const url = new URL(endpoint, 'http://local');
+    const path = url.pathname;
+
+    switch (path) {
+      case '/drugs.json':
+        return this.drugs(url.searchParams.get('name') || '');
+      case '/rxcui.json':
+        if (url.searchParams.get('idtype') === 'ATC') {
+          return this.rxcuiByATC(url.searchParams.get('id') || '');
+        }
+        if (url.searchParams.get('idtype')) {
+          return this.rxcuiBySourceCode(url.searchParams.get('idtype')!, url.searchParams.get('id') || '');
+        }
+        return this.rxcuiByName(url.searchParams.get('name') || '');
+      case '/approximateTerm.json':
+        return this.approximateTermResponse(
+          url.searchParams.get('term') || '',
+          parseInt(url.searchParams.get('maxEntries') || '20', 10)
+        );
+      case '/spellingsuggestions.json':
+        return this.spellingSuggestionsResponse(url.searchParams.get('name') || '');
+      case '/ndcstatus.json':
+        return this.ndcStatusResponse(url.searchParams.get('ndc') || '');
+      case '/rxclass/classMembers.json':
+        // Only ATC membership can be derived from the release files
+        if (url.searchParams.get('relaSource') === 'ATC') {
+          return this.atcClassMembersResponse(
+            url.searchParams.get('classId') || '',
+            (url.searchParams.get('ttys') || 'IN').split(/[+ ]/).filter(Boolean)
+          );
+        }
+        break;
+    }
+
+    const match = path.match(/^\/rxcui\/(\d+)\/(related|allrelated|property|allProperties|properties|ndcs|allhistoricalndcs|historystatus)\.json$/);
+    if (match) {
+      const [, rxcui, resource] = match;
+      switch (resource) {
+        case 'related':
+          return this.relatedResponse(rxcui, (url.searchParams.get('tty') || '').split(/[+ ]/).filter(Boolean));
+        case 'allrelated':
+          return this.allRelatedResponse(rxcui);
+        case 'property':
+          return this.propertyResponse(rxcui, url.searchParams.get('propName') || '');
+        case 'allProperties':
+          return this.allPropertiesResponse(rxcui);
+        case 'properties':
+          return this.propertiesResponse(rxcui);
+        case 'ndcs':
+          return this.ndcsResponse(rxcui);
+        case 'allhistoricalndcs':
+          // The release files only carry current NDCs, so there is no history to report
+          return { historicalNdcConcept: { historicalNdcTime: [] } };
+        case 'historystatus':
+          return this.historyStatusResponse(rxcui);
+      }
+    }
+
+    throw new Error(`Endpoint not available in local RxNorm backend: ${endpoint}`);
+  }
+
+  private drugs(name: string) {
+    const matches = this.findByName(name);
+    if (matches.length === 0) {
+      return { drugGroup: { name: null } };
+    }
+
+    const byTty = new Map<string, RxNormConcept[]>(DRUG_TTYS.map(tty => [tty, []]));
+    const added = new Set<string>();
+
+    for (const match of matches) {
+      for (const concept of [match, ...this.related(match.rxcui, DRUG_TTYS)]) {
+        if (byTty.has(concept.tty) && !added.has(concept.rxcui)) {
+          byTty.get(concept.tty)!.push(concept);
+          added.add(concept.rxcui);
+        }
+      }
+    }
+
+    return {
+      drugGroup: {
+        name: null,
+        conceptGroup: DRUG_TTYS.map(tty => toConceptGroup(tty, byTty.get(tty)!))
+      }
+    };
+  }
+
+  private rxcuiByName(name: string) {
+    const rxnormId = this.findByName(name).map(c => c.rxcui);
+    return { idGroup: { name, ...(rxnormId.length > 0 && { rxnormId }) } };
+  }
+
+  private rxcuiByATC(code: string) {
+    const rxnormId = [...this.atc.entries()]
+      .filter(([, codes]) => codes.includes(code))
+      .map(([rxcui]) => rxcui);
+    return { idGroup: { ...(rxnormId.length > 0 && { rxnormId }) } };
+  }
+
+  private rxcuiBySourceCode(idType: string, code: string) {
+    const rxnormId = [...this.codes.entries()]
+      .filter(([, codes]) => codes.some(c => SOURCE_CODE_TYPES[c.sab] === idType && c.code === code))
+      .map(([rxcui]) => rxcui);
+    return { idGroup: { ...(rxnormId.length > 0 && { rxnormId }) } };
+  }
+
+  private atcClassMembersResponse(classId: string, ttys: string[]) {
+    const members = new Map<string, RxNormConcept>();
+
+    for (const [rxcui, codes] of this.atc) {
+      if (!codes.some(code => code.startsWith(classId))) continue;
+
+      const ingredient = this.concepts.get(rxcui);
+      if (!ingredient) continue;
+
+      for (const concept of [ingredient, ...this.related(rxcui, ttys)]) {
+        if (ttys.includes(concept.tty)) members.set(concept.rxcui, concept);
+      }
+    }
+
+    const drugMember = [...members.values()].map(concept => ({
+      minConcept: { rxcui: concept.rxcui, name: concept.name, tty: concept.tty },
+      nodeAttr: [{ attrName: 'SourceId', attrValue: classId }]
+    }));
+
+    return drugMember.length > 0 ? { drugMemberGroup: { drugMember } } : {};
+  }
+
+  private approximateTermResponse(term: string, maxEntries: number) {
+    const candidate = this.approximate(term, maxEntries).flatMap((match, index) =>
+      match.rxcuis.map(rxcui => ({
+        rxcui,
+        rxaui: '',
+        score: String(match.score),
+        rank: String(index + 1),
+        name: this.concepts.get(rxcui)?.name || match.name,
+        source: 'RXNORM'
+      }))
+    );
+
+    return { approximateGroup: { inputTerm: term, ...(candidate.length > 0 && { candidate }) } };
+  }
+
+  private spellingSuggestionsResponse(name: string) {
+    const suggestion = this.approximate(name, 5)
+      .filter(match => match.name !== name.trim().toLowerCase())
+      .map(match => match.name);
+
+    return {
+      suggestionGroup: {
+        name,
+        suggestionList: suggestion.length > 0 ? { suggestion } : null
+      }
+    };
+  }
+
+  private propertiesResponse(rxcui: string) {
+    const concept = this.concepts.get(rxcui);
+    if (!concept) return {};
+
+    return {
+      properties: {
+        rxcui: concept.rxcui,
+        name: concept.name,
+        synonym: concept.synonym,
+        tty: concept.tty,
+        language: 'ENG',
+        suppress: concept.suppress,
+        umlscui: ''
+      }
+    };
+  }
+
+  private ndcStatusResponse(ndc: string) {
+    const rxcui = this.ndcIndex.get(ndc);
+    const concept = rxcui ? this.concepts.get(rxcui) : undefined;
+
+    if (!concept) {
+      return { ndcStatus: { ndc11: ndc, status: 'UNKNOWN', active: 'NO', rxcui: '', conceptName: '', ndcHistory: [] } };
+    }
+
+    return {
+      ndcStatus: {
+        ndc11: ndc,
+        status: 'ACTIVE',
+        active: 'YES',
+        rxnormNdc: 'YES',
+        rxcui: concept.rxcui,
+        conceptName: concept.name,
+        conceptStatus: 'ACTIVE',
+        ndcHistory: []
+      }
+    };
+  }
+
+  private historyStatusResponse(rxcui: string) {
+    const concept = this.concepts.get(rxcui);
+    if (concept) {
+      return {
+        rxcuiStatusHistory: {
+          metaData: { status: 'Active', source: 'RXNORM', isCurrent: 'YES' },
+          attributes: { rxcui, name: concept.name, tty: concept.tty }
+        }
+      };
+    }
+
+    const rows = this.retired.get(rxcui);
+    if (!rows) {
+      return { rxcuiStatusHistory: { metaData: { status: 'UNKNOWN', isCurrent: 'NO' } } };
+    }
+
+    // A retired RxCUI merged into itself has no replacement
+    const remappedConcept = rows
+      .map(row => this.concepts.get(row.mergedInto))
+      .filter((target): target is RxNormConcept => !!target && target.rxcui !== rxcui)
+      .map(target => ({ remappedRxCui: target.rxcui, remappedName: target.name, remappedTTY: target.tty }));
+
+    return {
+      rxcuiStatusHistory: {
+        metaData: {
+          status: remappedConcept.length > 0 ? 'Remapped' : 'Obsolete',
+          source: 'RXNORM',
+          isCurrent: 'NO',
+          releaseStartDate: rows[0].versionStart,
+          releaseEndDate: rows[0].versionEnd
+        },
+        attributes: { rxcui },
+        derivedConcepts: { remappedConcept }
+      }
+    };
+  }
+
+  private ndcsResponse(rxcui: string) {
+    const ndcs = this.ndcs.get(rxcui) || [];
+    return { ndcGroup: { rxcui, ndcList: ndcs.length > 0 ? { ndc: ndcs } : null } };
+  }
+
+  private relatedResponse(rxcui: string, ttys: string[]) {
+    const related = this.related(rxcui, ttys);
+    return {
+      relatedGroup: {
+        rxcui,
+        termType: ttys,
+        conceptGroup: ttys.map(tty => toConceptGroup(tty, related.filter(c => c.tty === tty)))
+      }
+    };
+  }
+
+  private allRelatedResponse(rxcui: string) {
+    const related = this.related(rxcui);
+    const ttys = [...new Set(related.map(c => c.tty))].sort();
+    return {
+      allRelatedGroup: {
+        rxcui,
+        conceptGroup: ttys.map(tty => toConceptGroup(tty, related.filter(c => c.tty === tty)))
+      }
+    };
+  }
+
+  private propertyResponse(rxcui: string, propName: string) {
+    const props = this.properties(rxcui).filter(p => p.propName === propName);
+    return props.length > 0 ? { propConceptGroup: { propConcept: props } } : {};
+  }
+
+  private allPropertiesResponse(rxcui: string) {
+    const props = this.properties(rxcui);
+    return props.length > 0 ? { propConceptGroup: { propConcept: props } } : {};
+  }
+
+  private properties(rxcui: string): Array<{ propCategory: string; propName: string; propValue: string }> {
+    const concept = this.concepts.get(rxcui);
+    if (!concept) return [];
+
+    const props = [
+      { propCategory: 'ATTRIBUTES', propName: 'TTY', propValue: concept.tty },
+      { propCategory: 'NAMES', propName: 'RxNorm Name', propValue: concept.name },
+    ];
+
+    if (concept.synonym) {
+      props.push({ propCategory: 'NAMES', propName: 'RxNorm Synonym', propValue: concept.synonym });
+    }
+
+    for (const attr of this.attributes.get(rxcui) || []) {
+      props.push({ propCategory: 'ATTRIBUTES', propName: ATTRIBUTE_NAMES[attr.atn], propValue: attr.atv });
+    }
+
+    for (const rel of this.relations.get(rxcui) || []) {
+      const target = this.concepts.get(rel.rxcui);
+      if (rel.rela === 'has_dose_form' && target) {
+        props.push({ propCategory: 'ATTRIBUTES', propName: 'Dose Form', propValue: target.name });
+      }
+    }
+
+    for (const code of this.atc.get(rxcui) || []) {
+      props.push({ propCategory: 'CODES', propName: 'ATC', propValue: code });
+    }
+
+    for (const { sab, code } of this.codes.get(rxcui) || []) {
+      props.push({ propCategory: 'CODES', propName: SOURCE_CODE_TYPES[sab], propValue: code });
+    }
+
+    return props;
+  }
+
+  private addAtom(fields: string[]): void {
+    if (fields[CONSO.LAT] !== 'ENG') return;
+
+    const rxcui = fields[CONSO.RXCUI];
+    const sab = fields[CONSO.SAB];
+    const tty = fields[CONSO.TTY];
+    const str = fields[CONSO.STR];
+
+    if (sab === 'ATC') {
+      const code = fields[CONSO.CODE];
+      const codes = this.atc.get(rxcui) || [];
+      if (/^[A-Z]\d{2}[A-Z]{2}\d{2}$/.test(code) && !codes.includes(code)) {
+        codes.push(code);
+        this.atc.set(rxcui, codes);
+      }
+      return;
+    }
+
+    if (sab in SOURCE_CODE_TYPES) {
+      const code = fields[CONSO.CODE];
+      const codes = this.codes.get(rxcui) || [];
+      if (code && code !== 'NOCODE' && !codes.some(c => c.sab === sab && c.code === code)) {
+        codes.push({ sab, code });
+        this.codes.set(rxcui, codes);
+      }
+      return;
+    }
+
+    if (sab !== 'RXNORM') return;
+
+    const key = str.toLowerCase();
+    if (!this.names.has(key)) this.names.set(key, new Set());
+    this.names.get(key)!.add(rxcui);
+
+    const existing = this.concepts.get(rxcui);
+    if (SYNONYM_TTYS.has(tty)) {
+      if (existing) {
+        if (!existing.synonym || tty === 'SY') existing.synonym = str;
+      } else {
+        // Placeholder until the concept's preferred atom is read
+        this.concepts.set(rxcui, { rxcui, name: '', tty: '', synonym: str, suppress: 'N' });
+      }
+      return;
+    }
+
+    this.concepts.set(rxcui, {
+      rxcui,
+      name: str,
+      tty,
+      synonym: existing?.synonym || '',
+      suppress: fields[CONSO.SUPPRESS] || 'N',
+    });
+  }
+
+  private addRelation(fields: string[]): void {
+    if (fields[REL.SAB] !== 'RXNORM' || !fields[REL.RXCUI1] || !fields[REL.RXCUI2]) return;
+
+    const rxcui1 = fields[REL.RXCUI1];
+    const rels = this.relations.get(rxcui1) || [];
+    if (!rels.some(r => r.rxcui === fields[REL.RXCUI2] && r.rela === fields[REL.RELA])) {
+      rels.push({ rxcui: fields[REL.RXCUI2], rela: fields[REL.RELA] });
+      this.relations.set(rxcui1, rels);
+    }
+  }
+
+  private addAttribute(fields: string[]): void {
+    if (fields[SAT.SAB] !== 'RXNORM') return;
+
+    if (fields[SAT.ATN] === 'NDC') {
+      this.addNdc(fields[SAT.RXCUI], fields[SAT.ATV]);
+      return;
+    }
+
+    if (!(fields[SAT.ATN] in ATTRIBUTE_NAMES)) return;
+
+    const rxcui = fields[SAT.RXCUI];
+    const attrs = this.attributes.get(rxcui) || [];
+    attrs.push({ atn: fields[SAT.ATN], atv: fields[SAT.ATV] });
+    this.attributes.set(rxcui, attrs);
+  }
+
+  private addRetired(fields: string[]): void {
+    const rxcui = fields[CUI.CUI1];
+    if (!rxcui) return;
+
+    const rows = this.retired.get(rxcui) || [];
+    rows.push({
+      rxcui,
+      versionStart: fields[CUI.VER_START],
+      versionEnd: fields[CUI.VER_END],
+      mergedInto: fields[CUI.CUI2],
+    });
+    this.retired.set(rxcui, rows);
+  }
+
+  private addNdc(rxcui: string, ndc: string): void {
+    const ndcs = this.ndcs.get(rxcui) || [];
+    if (!ndcs.includes(ndc)) {
+      ndcs.push(ndc);
+      this.ndcs.set(rxcui, ndcs);
+    }
+    this.ndcIndex.set(ndc, rxcui);
+  }
+}
+
+function levelOf(concept?: RxNormConcept): number {
+  return concept && concept.tty in TTY_LEVEL ? TTY_LEVEL[concept.tty] : 1;
+}
+
+function toConceptGroup(tty: string, concepts: RxNormConcept[]) {
+  if (concepts.length === 0) return { tty };
+
+  return {
+    tty,
+    conceptProperties: concepts.map(c => ({
+      rxcui: c.rxcui,
+      name: c.name,
+      synonym: c.synonym,
+      tty: c.tty,
+      language: 'ENG',
+      suppress: c.suppress,
+      umlscui: ''
+    }))
+  };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+async function resolveRRFDir(dir: string): Promise<string> {
+  try {
+    await fs.access(join(dir, 'RXNCONSO.RRF'));
+    return dir;
+  } catch {
+    return join(dir, 'rrf');
+  }
+}
+
+async function readRRF(path: string, onRow: (fields: string[]) => void): Promise<void> {
+  const lines = createInterface({
+    input: createReadStream(path, { encoding: 'utf8' }),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    if (line.length > 0) onRow(line.split('|'));
+  }
+}
@@ -0,0 +1,181 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Shared scheduler for outbound requests to RxNav and OpenFDA: a token bucket
+// per host keeps us under each API's published rate, identical requests in
+// flight share one fetch, and callers waiting for a token are served round
+// robin so one busy client cannot starve the others.
+
+export interface HostRateLimit {
+  // Sustained requests per second; 0 disables limiting for the host
+  requestsPerSecond: number;
+  // Requests that may go out at once after an idle period
+  burst: number;
+}
+
+export interface UpstreamStats {
+  host: string;
+  queued: number;
+  callers: number;
+}
+
+interface HostQueue {
+  limit: HostRateLimit;
+  tokens: number;
+  refilledAt: number;
+  // Waiters per caller; Map order is the round-robin order
+  waiters: Map<string, Array<() => void>>;
+  timer?: NodeJS.Timeout;
+}
+
+const DEFAULT_CALLER = 'default';
+
+// NLM asks RxNav clients to stay under 20 requests per second per IP; OpenFDA
+// allows 240 per minute without an API key.
+export const DEFAULT_HOST_LIMITS: Record<string, HostRateLimit> = {
+  'rxnav.nlm.nih.gov': { requestsPerSecond: 15, burst: 15 },
+  'api.fda.gov': { requestsPerSecond: 4, burst: 4 },
+};
+
+export class UpstreamScheduler {
+  private hosts = new Map<string, HostQueue>();
+  private inFlight = new Map<string, Promise<any>>();
+  private caller = new AsyncLocalStorage<string>();
+
+  constructor(private limits: Record<string, HostRateLimit> = DEFAULT_HOST_LIMITS) {}
+
+  /**
+   * Reads UPSTREAM_RATE_LIMITS, a comma-separated list of `host=rate` or
+   * `host=rate/burst` entries that override the defaults.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): UpstreamScheduler {
+    const limits = { ...DEFAULT_HOST_LIMITS };
+
+    for (const entry of (env.UPSTREAM_RATE_LIMITS || '').split(',')) {
+      const match = entry.trim().match(/^([^=\s]+)=(\d+(?:\.\d+)?)(?:\/(\d+))?$/);
+      if (!match) continue;
+
+      const requestsPerSecond = parseFloat(match[2]);
+      const burst = match[3] ? parseInt(match[3], 10) : Math.max(1, Math.floor(requestsPerSecond));
+      limits[match[1]] = { requestsPerSecond, burst };
+    }
+
+    return new UpstreamScheduler(limits);
+  }
+
+  /**
+   * Runs `fn` with upstream requests attributed to `caller` (an API key,
+   * session or client address) for fair queueing.
+   */
+  runAs<T>(caller: string, fn: () => T): T {
+    return this.caller.run(caller, fn);
+  }
+
+  /**
+   * Returns the pending result for `key` if the same request is already in
+   * flight, otherwise starts `fetch` and shares it until it settles.
+   */
+  coalesce<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = fetch().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Waits until a request to `url`'s host may be sent. Call once per attempt,
+   * so retries are rate limited too.
+   */
+  acquire(url: string): Promise<void> {
+    const host = new URL(url).host;
+    const limit = this.limits[host];
+    if (!limit || limit.requestsPerSecond <= 0) {
+      return Promise.resolve();
+    }
+
+    const queue = this.hostQueue(host, limit);
+    const caller = this.caller.getStore() ?? DEFAULT_CALLER;
+
+    return new Promise(resolve => {
+      const waiters = queue.waiters.get(caller);
+      if (waiters) {
+        waiters.push(resolve);
+      } else {
+        queue.waiters.set(caller, [resolve]);
+      }
+      this.drain(queue);
+    });
+  }
+
+  stats(): UpstreamStats[] {
+    return [...this.hosts.entries()].map(([host, queue]) => ({
+      host,
+      queued: [...queue.waiters.values()].reduce((sum, waiters) => sum + waiters.length, 0),
+      callers: queue.waiters.size,
+    }));
+  }
+
+  private hostQueue(host: string, limit: HostRateLimit): HostQueue {
+    let queue = this.hosts.get(host);
+    if (!queue) {
+      queue = { limit, tokens: limit.burst, refilledAt: Date.now(), waiters: new Map() };
+      this.hosts.set(host, queue);
+    }
+    return queue;
+  }
+
+  private drain(queue: HostQueue) {
+    const now = Date.now();
+    const { requestsPerSecond, burst } = queue.limit;
+    queue.tokens = Math.min(burst, queue.tokens + (now - queue.refilledAt) / 1000 * requestsPerSecond);
+    queue.refilledAt = now;
+
+    while (queue.tokens >= 1 && queue.waiters.size > 0) {
+      // Take one waiter from the caller at the head, then move that caller to the back
+      const [caller, waiters] = queue.waiters.entries().next().value!;
+      const resolve = waiters.shift()!;
+      queue.waiters.delete(caller);
+      if (waiters.length > 0) {
+        queue.waiters.set(caller, waiters);
+      }
+
+      queue.tokens -= 1;
+      resolve();
+    }
+
+    if (queue.waiters.size > 0 && !queue.timer) {
+      const waitMs = Math.ceil((1 - queue.tokens) / requestsPerSecond * 1000);
+      queue.timer = setTimeout(() => {
+        queue.timer = undefined;
+        this.drain(queue);
+      }, waitMs);
+    }
+  }
+}
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls running at once,
+ * keeping results in input order.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// One scheduler per process, so every client of an upstream shares its budget
+export const upstreamScheduler = UpstreamScheduler.fromEnv();
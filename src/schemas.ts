@@ -0,0 +1,617 @@
+import { z } from 'zod';
+import { LabelSectionSchema } from './openfda.js';
+import type { ATCCode } from './atc.js';
+
+// Zod schemas for the arguments and results of every tool and HTTP route.
+// The registry turns them into the MCP tool list and the OpenAPI document,
+// so descriptions written here are what clients see.
+
+const RXCUI_PATTERN = /^\d+$/;
+
+export const ClassSystemSchema = z.enum(['atc', 'mesh_pa', 'fda_epc', 'moa', 'pe', 'va', 'medrt']);
+export type ClassSystem = z.infer<typeof ClassSystemSchema>;
+
+export const CodeSystemSchema = z.enum(['snomedct', 'mesh', 'vandf', 'mmsl', 'gs', 'drugbank']);
+export type CodeSystem = z.infer<typeof CodeSystemSchema>;
+
+const drugIdentifier = (description = "Drug name (brand or generic), RxCUI or NDC") =>
+  z.string().describe(description);
+
+const preferredTty = z.string().optional()
+  .describe("Term type to prefer when a name matches several concepts (e.g. IN, BN, SCD)");
+
+const rxcui = (description: string) =>
+  z.string().regex(RXCUI_PATTERN, "RxCUI must be numeric").describe(description);
+
+const ndc = (description = "NDC in 10- or 11-digit form, with or without hyphens") =>
+  z.string().describe(description);
+
+// RxNav tool parameters
+
+export const DrugSearchParamsSchema = z.object({
+  drug_name: z.string()
+    .describe("Name of the drug to search for. Can be brand name, generic name, or ingredient name."),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10)
+    .describe("Maximum number of results to return"),
+});
+
+export const DrugIdentifierParamsSchema = z.object({
+  drug_identifier: drugIdentifier("Drug name (brand or generic) or RxCUI"),
+  preferred_tty: preferredTty,
+});
+
+export const GenericNameParamsSchema = z.object({
+  generic_name: z.string().describe("Generic drug name to find brand names for"),
+});
+
+export const AEPipelineRAGParamsSchema = z.object({
+  query: z.string().optional()
+    .describe("Natural language query about drug terminology. Example: 'ATC classification and generic names'"),
+  drug: z.string().optional()
+    .describe("Drug name to focus the analysis on. Example: 'aspirin', 'metformin'"),
+  condition: z.string().optional()
+    .describe("Medical condition context for drug classification. Example: 'diabetes', 'cardiovascular'"),
+  filters: z.object({
+    limit: z.coerce.number().int().min(1).max(100).optional()
+      .describe("Maximum drug search records to fetch (at most 20 are used)"),
+  }).optional().describe("Additional filters for data retrieval"),
+  top_k: z.coerce.number().int().min(1).max(10).optional().default(5)
+    .describe("Number of most relevant text chunks to return"),
+  ranking: z.enum(['bm25', 'legacy']).optional().default('bm25')
+    .describe("Chunk ranking: BM25 over the retrieved chunks, or the older keyword-frequency scorer"),
+  deadline_ms: z.coerce.number().int().min(1000).max(60000).optional().default(20000)
+    .describe("Overall time budget in milliseconds; sources still running after it are reported as timed out"),
+  language: z.enum(['zh', 'en', 'bilingual']).optional().default('zh')
+    .describe("Language of the summary: Chinese, English, or both side by side"),
+});
+
+export type AEPipelineRAGParams = z.infer<typeof AEPipelineRAGParamsSchema>;
+
+export const ApproximateMatchParamsSchema = z.object({
+  term: z.string().describe("Drug name to match, e.g. 'metfromin'"),
+  max_entries: z.coerce.number().int().min(1).max(50).optional().default(10)
+    .describe("Maximum number of candidates to return"),
+});
+
+export const NdcParamsSchema = z.object({
+  ndc: ndc(),
+});
+
+export const NormalizeNdcParamsSchema = z.object({
+  ndc: ndc("NDC to normalize, e.g. '0573-0150-20' or '00573015020'"),
+});
+
+export const RxcuiParamsSchema = z.object({
+  rxcui: rxcui("RxNorm concept unique identifier"),
+});
+
+export const RxcuiNdcParamsSchema = z.object({
+  rxcui: rxcui("RxCUI of a clinical or branded drug, e.g. '209387'"),
+  include_historical: z.boolean().optional().default(true)
+    .describe("Whether to include NDCs that are no longer active"),
+});
+
+export const DrugClassesParamsSchema = z.object({
+  drug_identifier: drugIdentifier(),
+  class_systems: z.array(ClassSystemSchema).min(1).optional()
+    .describe("Class systems to query (default: all)"),
+  preferred_tty: preferredTty,
+});
+
+export const ClassMembersParamsSchema = z.object({
+  class_id: z.string().min(1).describe("Class ID, e.g. 'N0000175605' (FDA EPC) or 'C09AA' (ATC)"),
+  class_system: ClassSystemSchema.describe("Class system the class ID belongs to"),
+  ttys: z.array(z.string()).optional().default(['IN', 'PIN', 'MIN'])
+    .describe("RxNorm term types of the members to return"),
+});
+
+export const MapIdentifierParamsSchema = z.object({
+  rxcui: rxcui("RxCUI to map to source vocabulary codes").optional(),
+  source: CodeSystemSchema.optional()
+    .describe("Vocabulary of `code` when mapping a source code to RxCUIs"),
+  code: z.string().min(1).optional()
+    .describe("Source vocabulary code to map to RxCUIs (e.g. a SNOMED CT concept ID or DrugBank ID)"),
+  sources: z.array(CodeSystemSchema).min(1).optional()
+    .describe("Vocabularies to return codes from when mapping an RxCUI (default: all)"),
+}).refine(
+  params => !!params.rxcui !== !!(params.source && params.code),
+  "Provide either rxcui, or source and code"
+);
+
+export const EquivalentProductsParamsSchema = z.object({
+  drug_identifier: drugIdentifier(),
+  preferred_tty: preferredTty,
+  include_ndcs: z.boolean().optional().default(true)
+    .describe("Include the NDCs of each product"),
+  max_groups: z.coerce.number().int().min(1).max(100).optional().default(25)
+    .describe("Maximum number of SCD groups to return"),
+});
+
+export const DrugLabelParamsSchema = z.object({
+  drug_identifier: drugIdentifier(),
+  preferred_tty: preferredTty,
+  limit: z.coerce.number().int().min(1).max(10).optional().default(3)
+    .describe("Maximum number of labels to return"),
+});
+
+export const LabelSectionParamsSchema = DrugLabelParamsSchema.extend({
+  section: LabelSectionSchema.describe("Label section to return"),
+});
+
+export const BrowseATCClassParamsSchema = z.object({
+  atc_code: z.string().regex(/^[A-Z](\d{2}([A-Z]([A-Z](\d{2})?)?)?)?$/i, "Invalid ATC code")
+    .describe("ATC code at any level, e.g. 'C', 'C09', 'C09A', 'C09AA' or 'C09AA02'"),
+  ttys: z.array(z.string()).optional().default(['IN', 'SCD'])
+    .describe("RxNorm term types of the member concepts to return"),
+  page: z.coerce.number().int().min(1).optional().default(1)
+    .describe("Page of member concepts to return (1-based)"),
+  page_size: z.coerce.number().int().min(1).max(200).optional().default(50)
+    .describe("Number of member concepts per page"),
+});
+
+export const WarmCacheParamsSchema = z.object({
+  drug_names: z.array(z.string()).min(1).max(100)
+    .describe("Drug names (brand or generic) to pre-fetch"),
+});
+
+// OpenFDA route parameters; free-text label search uses DrugLabelSearchParamsSchema
+
+export const LabelQueryParamsSchema = z.object({
+  name: z.string().describe("Drug name (brand, generic or substance)"),
+  limit: z.coerce.number().int().min(1).max(10).optional().default(3)
+    .describe("Maximum number of labels to return"),
+});
+
+// Building blocks of tool results
+
+const ConceptSchema = z.object({
+  rxcui: z.string(),
+  name: z.string(),
+  termType: z.string(),
+});
+
+const SpellingCorrectionSchema = z.object({
+  original: z.string(),
+  corrected: z.string(),
+  method: z.enum(['spelling_suggestion', 'approximate_term']),
+}).describe("Corrected spelling the lookup fell back to");
+
+const RankedCandidateSchema = ConceptSchema.extend({
+  suppress: z.string(),
+  exact_match: z.boolean(),
+  score: z.number(),
+});
+
+const NameResolutionSchema = RankedCandidateSchema.extend({
+  preferred_tty: z.string().optional(),
+  ambiguous: z.boolean(),
+  alternatives: z.array(RankedCandidateSchema),
+}).describe("How a drug name was ranked to one RxCUI");
+
+const RxcuiStatusCodeSchema = z.enum(['active', 'obsolete', 'remapped', 'quantified', 'never_active', 'unknown']);
+
+const RxcuiRemapSchema = z.object({
+  original_rxcui: z.string(),
+  status: RxcuiStatusCodeSchema,
+  followed_rxcui: z.string(),
+  remapped_to: z.array(ConceptSchema),
+  message: z.string(),
+}).describe("Set when a retired RxCUI was followed to its replacement");
+
+export type RxcuiRemap = z.infer<typeof RxcuiRemapSchema>;
+
+// Fields every drug lookup reports; rxcui and the results are missing when nothing matched
+const resolvedDrug = {
+  query: z.string(),
+  rxcui: z.string().optional(),
+  message: z.string().optional().describe("Why nothing was found"),
+  spelling_correction: SpellingCorrectionSchema.optional(),
+  rxcui_remap: RxcuiRemapSchema.optional(),
+  resolution: NameResolutionSchema.optional(),
+  total_found: z.number().int().optional(),
+};
+
+const ATCLevelSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  level: z.number().int(),
+});
+
+// ATC has five levels, so a tree node nests at most four levels of children
+function atcTreeNode(levels: number): z.ZodType<ATCCode, z.ZodTypeDef, unknown> {
+  if (levels === 1) return ATCLevelSchema;
+  return ATCLevelSchema.extend({
+    children: z.array(atcTreeNode(levels - 1)).optional(),
+  });
+}
+
+const ATCNodeSchema = atcTreeNode(5);
+
+// Tree nodes nest further ATCLevel nodes under `children`
+const ATCCodeSchema = ATCLevelSchema.extend({
+  lineage: z.array(ATCLevelSchema).optional(),
+  path: z.string().optional(),
+  children: z.array(ATCNodeSchema).optional(),
+  members: z.array(ConceptSchema).optional(),
+});
+
+const NormalizedNdcSchema = z.object({
+  input: z.string(),
+  format: z.enum(['4-4-2', '5-3-2', '5-4-1', '5-4-2', '10-digit', '11-digit']),
+  ndc11: z.string().nullable(),
+  hyphenated: z.string().nullable(),
+  candidates: z.array(z.string()),
+});
+
+const ProductConceptSchema = ConceptSchema.extend({
+  ndcs: z.array(z.string()).optional(),
+});
+
+const SourceCodeMappingSchema = ConceptSchema.extend({
+  source: z.string(),
+  code: z.string(),
+});
+
+const LabelSummarySchema = z.object({
+  id: z.string(),
+  set_id: z.string(),
+  version: z.string(),
+  effective_time: z.string(),
+  brand_name: z.string(),
+  generic_name: z.string(),
+  manufacturer: z.string(),
+  rxcuis: z.array(z.string()),
+  sections: z.array(LabelSectionSchema),
+  has_boxed_warning: z.boolean(),
+});
+
+// Label tools report how the drug was matched before the labels themselves
+const labelLookup = {
+  query: z.string(),
+  rxcui: z.string().nullable(),
+  spelling_correction: SpellingCorrectionSchema.optional(),
+  rxcui_remap: RxcuiRemapSchema.optional(),
+  resolution: NameResolutionSchema.optional(),
+  matched_by: z.literal('openfda.rxcui'),
+  product_rxcuis: z.array(z.string()).describe("Product RxCUIs searched in openfda.rxcui"),
+  total_product_rxcuis: z.number().int(),
+  message: z.string().optional(),
+  total_results: z.number().int(),
+};
+
+// Tool results
+
+export const DrugSearchResultSchema = z.object({
+  query: z.string(),
+  message: z.string().optional(),
+  spelling_correction: SpellingCorrectionSchema.optional(),
+  total_found: z.number().int().optional(),
+  returned_count: z.number().int().optional(),
+  results: z.array(ConceptSchema),
+});
+
+export const GenericNamesResultSchema = z.object({
+  ...resolvedDrug,
+  generic_names: z.array(ConceptSchema),
+});
+
+export const BrandNamesResultSchema = z.object({
+  query: z.string(),
+  generic_rxcui: z.string().optional(),
+  message: z.string().optional(),
+  spelling_correction: SpellingCorrectionSchema.optional(),
+  resolution: NameResolutionSchema.optional(),
+  brand_names: z.array(ConceptSchema),
+  total_found: z.number().int().optional(),
+});
+
+export const ATCClassificationResultSchema = z.object({
+  ...resolvedDrug,
+  atc_codes: z.array(ATCCodeSchema.extend({ level_name: z.string() })),
+  atc_tree: z.array(ATCNodeSchema).optional()
+    .describe("ATC codes merged into one tree rooted at the anatomical main groups"),
+});
+
+export const IngredientsResultSchema = z.object({
+  ...resolvedDrug,
+  ingredients: z.array(ConceptSchema.extend({
+    strength: z.string().optional(),
+    dosageForm: z.string().optional(),
+  })),
+});
+
+export const RAGResultSchema = z.object({
+  source: z.string(),
+  query: z.string().optional(),
+  drug: z.string().optional(),
+  condition: z.string().optional(),
+  top_chunks: z.array(z.object({
+    id: z.string(),
+    text: z.string(),
+    source: z.string(),
+    metadata: z.record(z.unknown()),
+    score: z.number().optional(),
+  })),
+  summary: z.string(),
+  citations: z.array(z.object({
+    id: z.string(),
+    title: z.string().optional(),
+    type: z.string().optional(),
+  })),
+  rxcui: z.string().nullable().optional().describe("RxCUI the drug resolved to, shared by every source"),
+  partial: z.boolean().optional().describe("True when a source failed or did not finish before the deadline"),
+  elapsed_ms: z.number().optional(),
+  sources: z.array(z.object({
+    type: z.string(),
+    status: z.enum(['ok', 'error', 'timeout', 'skipped']),
+    duration_ms: z.number(),
+    error: z.string().optional(),
+  })).optional().describe("Per-source timing and errors"),
+});
+
+export const ApproximateMatchResultSchema = z.object({
+  query: z.string(),
+  candidates: z.array(z.object({
+    rank: z.number(),
+    score: z.number(),
+    rxcui: z.string(),
+    name: z.string(),
+    termType: z.string().optional(),
+    source: z.string(),
+  })),
+  spelling_suggestions: z.array(z.object({
+    suggestion: z.string(),
+    rxcuis: z.array(z.string()),
+  })),
+  total_found: z.number().int(),
+});
+
+export const NormalizeNdcResultSchema = NormalizedNdcSchema.extend({
+  query: z.string(),
+  ambiguous: z.boolean().describe("True for unhyphenated 10-digit NDCs, which have several 11-digit readings"),
+});
+
+export const NdcToRxcuiResultSchema = z.object({
+  query: z.string(),
+  normalization: NormalizedNdcSchema,
+  message: z.string().optional(),
+  ndc11: z.string().optional(),
+  ndc_hyphenated: z.string().optional(),
+  status: z.string().describe("RxNav NDC status: ACTIVE, OBSOLETE, ALIEN or UNKNOWN"),
+  rxcui: z.string().nullable(),
+  name: z.string().nullable().optional(),
+  concept_status: z.string().nullable().optional(),
+  history: z.array(z.object({
+    activeRxcui: z.string().optional(),
+    originalRxcui: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+  })).optional(),
+});
+
+export const NdcsForRxcuiResultSchema = z.object({
+  query: z.string(),
+  rxcui: z.string(),
+  rxcui_remap: RxcuiRemapSchema.optional(),
+  active_ndcs: z.array(z.string()),
+  historical_ndcs: z.array(z.object({
+    ndc: z.string(),
+    rxcui: z.string(),
+    relation: z.string().describe("direct, or indirect through a remapped concept"),
+    startDate: z.string(),
+    endDate: z.string(),
+    active: z.boolean(),
+  })),
+  total_active: z.number().int(),
+  total_historical: z.number().int(),
+});
+
+export const NdcPropertiesResultSchema = z.object({
+  query: z.string(),
+  normalization: NormalizedNdcSchema,
+  message: z.string().optional(),
+  properties: z.array(z.object({
+    ndc11: z.string(),
+    ndc10: z.string().optional(),
+    rxcui: z.string(),
+    labeler: z.string().optional(),
+    marketing_status: z.string().optional(),
+    marketing_category: z.string().optional(),
+    marketing_start_date: z.string().optional(),
+    packaging: z.array(z.string()),
+    spl_set_id: z.string().optional(),
+    other_properties: z.record(z.string()),
+  })),
+  total_found: z.number().int(),
+});
+
+export const DrugClassesResultSchema = z.object({
+  ...resolvedDrug,
+  classes: z.array(z.object({
+    class_id: z.string(),
+    class_name: z.string(),
+    class_type: z.string(),
+    system: ClassSystemSchema,
+    rela: z.string(),
+    rela_source: z.string(),
+    drug: ConceptSchema,
+  })),
+  by_system: z.record(z.number().int()).optional(),
+  failed_systems: z.array(z.object({ system: ClassSystemSchema, error: z.string() })).optional(),
+});
+
+export const ClassMembersResultSchema = z.object({
+  class_id: z.string(),
+  class_system: ClassSystemSchema,
+  rela_source: z.string(),
+  ttys: z.array(z.string()),
+  members: z.array(ConceptSchema.extend({ sourceId: z.string().optional() })),
+  total_found: z.number().int(),
+});
+
+export const BrowseATCClassResultSchema = z.object({
+  query: z.string(),
+  atc_class: ATCCodeSchema,
+  ttys: z.array(z.string()),
+  pagination: z.object({
+    page: z.number().int(),
+    page_size: z.number().int(),
+    total_members: z.number().int(),
+    total_pages: z.number().int(),
+  }),
+});
+
+export const DrugLabelsResultSchema = z.object({
+  ...labelLookup,
+  labels: z.array(LabelSummarySchema),
+});
+
+export const LabelSectionResultSchema = z.object({
+  ...labelLookup,
+  section: LabelSectionSchema,
+  labels: z.array(LabelSummarySchema.extend({ text: z.array(z.string()) })),
+});
+
+export const BoxedWarningResultSchema = z.object({
+  ...labelLookup,
+  has_boxed_warning: z.boolean(),
+  boxed_warnings: z.array(z.object({
+    id: z.string(),
+    set_id: z.string(),
+    effective_time: z.string(),
+    brand_name: z.string(),
+    generic_name: z.string(),
+    manufacturer: z.string(),
+    boxed_warning: z.array(z.string()),
+  })),
+});
+
+export const EquivalentProductsResultSchema = z.object({
+  ...resolvedDrug,
+  input: ProductConceptSchema.optional(),
+  input_group_scd: z.string().nullable().optional()
+    .describe("SCD of the group the input belongs to; null for ingredients and brand names"),
+  groups: z.array(z.object({
+    scd: ProductConceptSchema,
+    is_input_group: z.boolean(),
+    branded_products: z.array(ProductConceptSchema),
+    packs: z.array(ProductConceptSchema),
+  })),
+  total_groups: z.number().int().optional(),
+  truncated: z.boolean().optional(),
+});
+
+// Forward lookups echo the RxCUI as `query`, reverse lookups the source and code
+export const MapIdentifierResultSchema = z.object({
+  query: z.string(),
+  rxcui: z.string().optional(),
+  rxcui_remap: RxcuiRemapSchema.optional(),
+  name: z.string().optional(),
+  termType: z.string().optional(),
+  source: z.string().optional(),
+  code: z.string().optional(),
+  message: z.string().optional(),
+  mappings: z.array(SourceCodeMappingSchema),
+  by_source: z.record(z.number().int()).optional(),
+  total_found: z.number().int().optional(),
+});
+
+export const RxcuiStatusResultSchema = z.object({
+  query: z.string(),
+  rxcui: z.string(),
+  status: RxcuiStatusCodeSchema,
+  rxnav_status: z.string(),
+  is_current: z.boolean(),
+  name: z.string().nullable(),
+  termType: z.string().nullable(),
+  source: z.string().nullable(),
+  release_start_date: z.string().nullable(),
+  release_end_date: z.string().nullable(),
+  active_start_date: z.string().nullable(),
+  active_end_date: z.string().nullable(),
+  remapped_date: z.string().nullable(),
+  remapped_to: z.array(ConceptSchema),
+});
+
+export const WarmCacheResultSchema = z.object({
+  backend: z.enum(['remote', 'local']),
+  cache_enabled: z.boolean(),
+  cached_entries: z.number().int(),
+  warmed: z.array(z.string()),
+  failed: z.array(z.object({ drug_name: z.string(), error: z.string() })),
+});
+
+// Typed tool payloads, as returned by RxNavServer's tool methods
+export type DrugSearchResult = z.infer<typeof DrugSearchResultSchema>;
+export type GenericNamesResult = z.infer<typeof GenericNamesResultSchema>;
+export type BrandNamesResult = z.infer<typeof BrandNamesResultSchema>;
+export type ATCClassificationResult = z.infer<typeof ATCClassificationResultSchema>;
+export type IngredientsResult = z.infer<typeof IngredientsResultSchema>;
+export type ApproximateMatchResult = z.infer<typeof ApproximateMatchResultSchema>;
+export type NormalizeNdcResult = z.infer<typeof NormalizeNdcResultSchema>;
+export type NdcToRxcuiResult = z.infer<typeof NdcToRxcuiResultSchema>;
+export type NdcsForRxcuiResult = z.infer<typeof NdcsForRxcuiResultSchema>;
+export type NdcPropertiesResult = z.infer<typeof NdcPropertiesResultSchema>;
+export type DrugClassesResult = z.infer<typeof DrugClassesResultSchema>;
+export type ClassMembersResult = z.infer<typeof ClassMembersResultSchema>;
+export type BrowseATCClassResult = z.infer<typeof BrowseATCClassResultSchema>;
+export type DrugLabelsResult = z.infer<typeof DrugLabelsResultSchema>;
+export type LabelSectionResult = z.infer<typeof LabelSectionResultSchema>;
+export type BoxedWarningResult = z.infer<typeof BoxedWarningResultSchema>;
+export type EquivalentProductsResult = z.infer<typeof EquivalentProductsResultSchema>;
+export type MapIdentifierResult = z.infer<typeof MapIdentifierResultSchema>;
+export type RxcuiStatusResult = z.infer<typeof RxcuiStatusResultSchema>;
+export type WarmCacheResult = z.infer<typeof WarmCacheResultSchema>;
+
+// OpenFDA route results
+
+export const DrugLabelSearchResultSchema = z.object({
+  meta: z.record(z.unknown()).describe("OpenFDA result metadata"),
+  results_count: z.number().int(),
+  results: z.array(z.record(z.unknown())).describe("Raw OpenFDA label records"),
+});
+
+const labelExcerpt = {
+  drug_name: z.string(),
+  manufacturer: z.string(),
+};
+
+export const AdverseReactionsResultSchema = z.object({
+  query: z.string(),
+  total_results: z.number().int(),
+  adverse_reactions_data: z.array(z.object({
+    ...labelExcerpt,
+    adverse_reactions: z.array(z.string()),
+    contraindications: z.array(z.string()),
+  })),
+});
+
+export const WarningsResultSchema = z.object({
+  query: z.string(),
+  total_results: z.number().int(),
+  warnings_data: z.array(z.object({
+    ...labelExcerpt,
+    warnings: z.array(z.string()),
+    precautions: z.array(z.string()),
+    boxed_warning: z.array(z.string()),
+  })),
+});
+
+export const IndicationsResultSchema = z.object({
+  query: z.string(),
+  total_results: z.number().int(),
+  indications_data: z.array(z.object({
+    ...labelExcerpt,
+    indications_and_usage: z.array(z.string()),
+    dosage_and_administration: z.array(z.string()),
+  })),
+});
+
+export const HealthResultSchema = z.object({
+  status: z.literal('ok'),
+  timestamp: z.string(),
+});
+
+export const ErrorResultSchema = z.object({
+  error: z.string(),
+});
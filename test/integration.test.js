@@ -135,8 +135,8 @@ const testCases = [
     tool: 'search_drug_by_name',
     args: { drug_name: 'aspirin', limit: 5 },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
-      return content.drugs && content.drugs.length > 0;
+      const content = result.structuredContent;
+      return content.results && content.results.length > 0;
     }
   },
   {
@@ -144,8 +144,8 @@ const testCases = [
     tool: 'search_drug_by_name',
     args: { drug_name: 'ibuprofen', limit: 3 },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
-      return content.drugs && content.drugs.length > 0;
+      const content = result.structuredContent;
+      return content.results && content.results.length > 0;
     }
   },
   {
@@ -153,7 +153,7 @@ const testCases = [
     tool: 'get_generic_name',
     args: { drug_identifier: 'Advil' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.generic_names && content.generic_names.length > 0;
     }
   },
@@ -162,7 +162,7 @@ const testCases = [
     tool: 'get_generic_name',
     args: { drug_identifier: 'Tylenol' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.generic_names && content.generic_names.length > 0;
     }
   },
@@ -171,7 +171,7 @@ const testCases = [
     tool: 'get_brand_names',
     args: { generic_name: 'ibuprofen' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.brand_names && content.brand_names.length > 0;
     }
   },
@@ -180,7 +180,7 @@ const testCases = [
     tool: 'get_brand_names',
     args: { generic_name: 'acetaminophen' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.brand_names && content.brand_names.length > 0;
     }
   },
@@ -189,7 +189,7 @@ const testCases = [
     tool: 'get_atc_classification',
     args: { drug_identifier: 'aspirin' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.atc_codes !== undefined; // 可能为空数组
     }
   },
@@ -198,7 +198,7 @@ const testCases = [
     tool: 'get_atc_classification',
     args: { drug_identifier: 'metformin' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.atc_codes !== undefined;
     }
   },
@@ -207,7 +207,7 @@ const testCases = [
     tool: 'get_drug_ingredients',
     args: { drug_identifier: 'Tylenol' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.ingredients && content.ingredients.length > 0;
     }
   },
@@ -216,9 +216,181 @@ const testCases = [
     tool: 'get_drug_ingredients',
     args: { drug_identifier: 'Advil' },
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
+      const content = result.structuredContent;
       return content.ingredients && content.ingredients.length > 0;
     }
+  },
+  {
+    name: '近似匹配 - metfromin',
+    tool: 'approximate_match',
+    args: { term: 'metfromin' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.candidates && content.candidates.some(c => c.rxcui === '6809');
+    }
+  },
+  {
+    name: '拼写纠正 - metfromin 成分查询',
+    tool: 'get_drug_ingredients',
+    args: { drug_identifier: 'metfromin' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.spelling_correction && content.ingredients.length > 0;
+    }
+  },
+  {
+    name: 'NDC规范化 - 4-4-2格式',
+    tool: 'normalize_ndc',
+    args: { ndc: '0573-0150-20' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.ndc11 === '00573015020';
+    }
+  },
+  {
+    name: 'NDC映射RxCUI - Advil',
+    tool: 'ndc_to_rxcui',
+    args: { ndc: '00573-0150-20' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return !!content.rxcui;
+    }
+  },
+  {
+    name: '药理学分类 - metformin',
+    tool: 'get_drug_classes',
+    args: { drug_identifier: 'metformin', class_systems: ['atc', 'fda_epc'] },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.classes && content.classes.length > 0;
+    }
+  },
+  {
+    name: '类别成员 - ATC C09AA',
+    tool: 'get_class_members',
+    args: { class_id: 'C09AA', class_system: 'atc', ttys: ['IN'] },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.members && content.members.length > 0;
+    }
+  },
+  {
+    name: 'ATC 分类浏览 - C09',
+    tool: 'browse_atc_class',
+    args: { atc_code: 'C09', page_size: 10 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.atc_class.children.length > 0 && content.pagination.page_size === 10;
+    }
+  },
+  {
+    name: 'RxCUI 历史状态 - 161',
+    tool: 'get_rxcui_status',
+    args: { rxcui: '161' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.status === 'active' && Array.isArray(content.remapped_to);
+    }
+  },
+  {
+    name: '名称解析 - 商品名优先于 SBD',
+    tool: 'get_generic_name',
+    args: { drug_identifier: 'Tylenol' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.resolution && content.resolution.termType === 'BN' && content.resolution.ambiguous === false;
+    }
+  },
+  {
+    name: '代码映射 - RxCUI 1191 到 SNOMED CT / DrugBank',
+    tool: 'map_identifier',
+    args: { rxcui: '1191', sources: ['snomedct', 'drugbank'] },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.mappings.length > 0 && content.mappings.every(m => m.rxcui && m.source && m.code);
+    }
+  },
+  {
+    name: '等效产品 - SBD 209387',
+    tool: 'get_equivalent_products',
+    args: { drug_identifier: '209387', max_groups: 5 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.groups.length > 0 && content.groups[0].is_input_group && content.input_group_scd === content.groups[0].scd.rxcui;
+    }
+  },
+  {
+    name: 'FDA 说明书章节 - metformin 不良反应',
+    tool: 'get_label_section',
+    args: { drug_identifier: 'metformin', section: 'adverse_reactions', limit: 2 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.matched_by === 'openfda.rxcui' && content.labels.length > 0 && content.labels[0].text.length > 0;
+    }
+  },
+  {
+    name: 'RAG 流水线 - aspirin 各数据源耗时',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', top_k: 3, deadline_ms: 30000 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.rxcui === '1191' && content.sources.length === 5 &&
+        content.sources.every(s => typeof s.duration_ms === 'number') && content.top_chunks.length > 0;
+    }
+  },
+  {
+    name: 'RAG 流水线 - 查询含正则特殊字符',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', query: 'aspirin (acetylsalicylic) + ATC 分类', top_k: 3, ranking: 'legacy' },
+    validate: (result) => {
+      const content = result.structuredContent;
+      return content.top_chunks.length > 0 && content.top_chunks.every(c => typeof c.score === 'number');
+    }
+  },
+  {
+    name: 'RAG 流水线 - 每个数据源最多 2 个片段',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', top_k: 10 },
+    validate: (result) => {
+      const counts = {};
+      result.structuredContent.top_chunks.forEach(c => { counts[c.source] = (counts[c.source] || 0) + 1; });
+      return Object.values(counts).every(n => n <= 2);
+    }
+  },
+  {
+    name: 'RAG 流水线 - 按记录分块与元数据引用',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', query: 'ATC classification', top_k: 6 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      const atc = content.top_chunks.find(c => c.metadata.record === 'atc');
+      return content.top_chunks.every(c => c.metadata.record) && atc &&
+        atc.text.includes(atc.metadata.atc_code) &&
+        content.citations.some(c => c.type === 'atc' && c.id === atc.metadata.atc_code);
+    }
+  },
+  {
+    name: 'RAG 流水线 - 英文摘要',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', top_k: 3, language: 'en' },
+    validate: (result) => {
+      const summary = result.structuredContent.summary;
+      return summary.startsWith('## RxNav Drug Terminology') && !/[\u4e00-\u9fff]/.test(summary);
+    }
+  },
+  {
+    name: 'RAG 流水线 - 抽取式摘要引用标记',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', query: 'ATC classification', top_k: 6 },
+    validate: (result) => {
+      const content = result.structuredContent;
+      const sentences = content.summary.split('\n').filter(line => line.startsWith('- ') && / \[\d+\]$/.test(line));
+      return content.summary.length <= 1200 && sentences.length > 0 &&
+        sentences.every(line => {
+          const n = parseInt(line.match(/\[(\d+)\]$/)[1], 10);
+          return n >= 1 && n <= content.top_chunks.length;
+        });
+    }
   }
 ];
 
@@ -230,8 +402,8 @@ const errorTestCases = [
     args: { drug_name: 'nonexistentdrug12345' },
     expectError: false, // 应该返回空结果而不是错误
     validate: (result) => {
-      const content = JSON.parse(result.content[0].text);
-      return content.drugs && content.drugs.length === 0;
+      const content = result.structuredContent;
+      return content.results && content.results.length === 0;
     }
   },
   {
@@ -245,6 +417,12 @@ const errorTestCases = [
     tool: 'search_drug_by_name',
     args: { drug_name: 'aspirin', limit: 100 },
     expectError: true
+  },
+  {
+    name: 'RAG top_k 超出范围',
+    tool: 'ae_pipeline_rag',
+    args: { drug: 'aspirin', top_k: 50 },
+    expectError: true
   }
 ];
 
@@ -273,8 +451,7 @@ async function runTests() {
           passedTests++;
           
           // 显示部分结果
-          const content = JSON.parse(result.content[0].text);
-          console.log(`   结果预览:`, JSON.stringify(content, null, 2).substring(0, 200) + '...');
+          console.log(`   结果预览:`, result.content[0].text.substring(0, 200) + '...');
         } else {
           console.log(`❌ 验证失败: ${testCase.name}`);
           console.log(`   结果:`, result);
@@ -0,0 +1,114 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { RxNavServer } from '../../dist/index.js';
+import { HTTP_ROUTES, TOOLS, readRouteArgs, routeParameters } from '../../dist/registry.js';
+import { startHttpServer, FIXTURE_RRF } from './http-server.js';
+
+// REST routes answer with the payload of the tool they map to, and failures
+// come back as 400 / 404 / 502 depending on where they happened.
+
+let server;
+
+before(async () => {
+  server = await startHttpServer();
+});
+
+after(async () => {
+  await server?.stop();
+});
+
+async function get(path) {
+  const response = await fetch(server.baseUrl + path);
+  return { status: response.status, body: await response.json() };
+}
+
+async function callToolLocally(name, args) {
+  process.env.RXNAV_BACKEND = 'local';
+  process.env.RXNAV_RRF_PATH = FIXTURE_RRF;
+  try {
+    return await new RxNavServer().callTool(name, args);
+  } finally {
+    delete process.env.RXNAV_BACKEND;
+    delete process.env.RXNAV_RRF_PATH;
+  }
+}
+
+test('every tool route names a registered tool and maps its parameters to tool arguments', () => {
+  const toolNames = new Set(TOOLS.map(tool => tool.name));
+
+  for (const route of HTTP_ROUTES.filter(route => route.tool)) {
+    assert.ok(toolNames.has(route.tool), `${route.path} -> ${route.tool}`);
+    if (route.method === 'post') continue;
+
+    const parameters = routeParameters(route);
+    const pathNames = [...route.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+    assert.deepEqual(parameters.filter(p => p.in === 'path').map(p => p.name), pathNames, route.path);
+    for (const param of parameters) {
+      assert.ok(param.field, `${route.path}: ${param.name} -> ${param.arg}`);
+    }
+  }
+
+  const route = HTTP_ROUTES.find(r => r.path === '/rxnav/classes/:system/:classId/members');
+  assert.deepEqual(
+    readRouteArgs(route, { system: 'ATC', classId: 'C09AA' }, { ttys: 'IN, MIN' }),
+    { class_system: 'ATC', class_id: 'C09AA', ttys: ['IN', 'MIN'] }
+  );
+});
+
+test('GET routes return the result of the mapped tool', async () => {
+  const brands = await get('/rxnav/drug/ibuprofen/brand-names');
+  assert.equal(brands.status, 200);
+  assert.deepEqual(brands.body, await callToolLocally('get_brand_names', { generic_name: 'ibuprofen' }));
+
+  const search = await get('/rxnav/search?name=aspirin&limit=3');
+  assert.equal(search.status, 200);
+  assert.deepEqual(search.body, await callToolLocally('search_drug_by_name', { drug_name: 'aspirin', limit: '3' }));
+  assert.deepEqual(search.body.results.map(r => r.rxcui), ['243670']);
+});
+
+test('POST /rxnav/rag passes the JSON body to ae_pipeline_rag', async () => {
+  const response = await fetch(`${server.baseUrl}/rxnav/rag`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ drug: 'aspirin', query: 'ingredients', top_k: 2 })
+  });
+  const body = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(body.drug, 'aspirin');
+  assert.ok(body.top_chunks.length > 0 && body.top_chunks.length <= 2);
+});
+
+test('invalid parameters are answered with 400', async () => {
+  const toolRoute = await get('/rxnav/search?name=aspirin&limit=500');
+  assert.equal(toolRoute.status, 400);
+  assert.match(toolRoute.body.error, /limit/);
+
+  const openFDARoute = await get('/drug/aspirin/warnings?limit=abc');
+  assert.equal(openFDARoute.status, 400);
+});
+
+test('a drug that is not found is answered with 404', async () => {
+  const { status, body } = await get('/rxnav/drug/zzzzunknown/generic-names');
+  assert.equal(status, 404);
+  assert.equal(typeof body.message, 'string');
+
+  // Label routes: no matching label is a 404 too
+  for (const path of ['/labels', '/labels/adverse_reactions', '/boxed-warning']) {
+    const labels = await get(`/rxnav/drug/zzzzunknown${path}`);
+    assert.equal(labels.status, 404, path);
+    assert.equal(labels.body.total_results, 0, path);
+  }
+});
+
+test('an unreachable upstream is answered with 502', async () => {
+  // Nothing listens on the discard port
+  const remote = await startHttpServer({ RXNAV_BACKEND: 'remote', RXNAV_BASE_URL: 'http://127.0.0.1:9/REST' });
+  try {
+    const response = await fetch(`${remote.baseUrl}/rxnav/drug/aspirin/generic-names`);
+    assert.equal(response.status, 502);
+    assert.equal(typeof (await response.json()).error, 'string');
+  } finally {
+    await remote.stop();
+  }
+});
@@ -0,0 +1,64 @@
+import { spawn } from 'child_process';
+import { createServer } from 'net';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// Starts dist/http.js in a child process on a free port, on the local backend
+// with the RRF fixture unless `env` says otherwise.
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+export const FIXTURE_RRF = join(root, 'test/fixtures/rrf');
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+export async function startHttpServer(env = {}) {
+  const port = await freePort();
+  const child = spawn('node', [join(root, 'dist/http.js')], {
+    env: {
+      ...process.env,
+      RXNAV_BACKEND: 'local',
+      RXNAV_RRF_PATH: FIXTURE_RRF,
+      RXNAV_CACHE_DISABLED: 'true',
+      ...env,
+      PORT: String(port)
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let stderr = '';
+  child.stderr.on('data', data => { stderr += data; });
+
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`HTTP server did not start:\n${stderr}`)), 10000);
+    child.stdout.on('data', data => {
+      if (String(data).includes('HTTP Server running')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`HTTP server exited with code ${code}:\n${stderr}`));
+    });
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    async stop() {
+      if (child.exitCode !== null) return;
+      const exited = new Promise(resolve => child.once('exit', resolve));
+      child.kill('SIGTERM');
+      await exited;
+    }
+  };
+}
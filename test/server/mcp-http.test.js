@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer } from './http-server.js';
+
+// Streamable HTTP sessions on /mcp, driven by the SDK client
+
+async function connect(server, requestInit) {
+  const client = new Client({ name: 'mcp-http-test', version: '0.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`), { requestInit });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+function listTools(server, sessionId, headers = {}) {
+  return fetch(`${server.baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Mcp-Protocol-Version': '2025-06-18',
+      ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      ...headers
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+  });
+}
+
+test('initialize creates a session that later requests reuse by Mcp-Session-Id', async () => {
+  const server = await startHttpServer();
+  try {
+    const { client, transport } = await connect(server);
+    const sessionId = transport.sessionId;
+    assert.match(sessionId, /^[0-9a-f-]{36}$/);
+
+    const { tools } = await client.listTools();
+    assert.ok(tools.some(tool => tool.name === 'search_drug_by_name'));
+    const result = await client.callTool({ name: 'search_drug_by_name', arguments: { drug_name: 'aspirin' } });
+    assert.deepEqual(result.structuredContent.results.map(r => r.rxcui), ['243670']);
+    assert.equal(transport.sessionId, sessionId);
+
+    // A client given the id joins the same session without initializing again
+    const resumed = new Client({ name: 'mcp-http-test', version: '0.0.0' });
+    await resumed.connect(new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`), { sessionId }));
+    assert.equal((await resumed.listTools()).tools.length, tools.length);
+    await resumed.close();
+    assert.equal((await listTools(server, sessionId)).status, 200);
+
+    assert.equal((await listTools(server, 'no-such-session')).status, 404);
+    assert.equal((await listTools(server, undefined)).status, 400);
+
+    await client.close();
+  } finally {
+    await server.stop();
+  }
+});
+
+test('requests from a non-loopback Origin are rejected', async () => {
+  const server = await startHttpServer();
+  try {
+    const rejected = await listTools(server, undefined, { Origin: 'https://evil.example' });
+    assert.equal(rejected.status, 403);
+    assert.match((await rejected.json()).error.message, /Origin not allowed/);
+
+    await assert.rejects(connect(server, { headers: { Origin: 'https://evil.example' } }), /Origin not allowed/);
+
+    const { client } = await connect(server, { headers: { Origin: 'http://localhost:5173' } });
+    await client.close();
+  } finally {
+    await server.stop();
+  }
+});
+
+test('MCP_ALLOWED_ORIGINS replaces the loopback default', async () => {
+  const server = await startHttpServer({ MCP_ALLOWED_ORIGINS: 'https://app.example' });
+  try {
+    const { client } = await connect(server, { headers: { Origin: 'https://app.example' } });
+    await client.close();
+    assert.equal((await listTools(server, undefined, { Origin: 'http://localhost:5173' })).status, 403);
+  } finally {
+    await server.stop();
+  }
+});
+
+test('new sessions are refused once MCP_MAX_SESSIONS are open', async () => {
+  const server = await startHttpServer({ MCP_MAX_SESSIONS: '1' });
+  try {
+    const first = await connect(server);
+    await assert.rejects(connect(server), /503|Too many open MCP sessions/);
+
+    // Ending the first session frees its slot
+    await first.transport.terminateSession();
+    await first.client.close();
+    const second = await connect(server);
+    await second.client.close();
+  } finally {
+    await server.stop();
+  }
+});
+
+test('sessions idle longer than MCP_SESSION_IDLE_MINUTES are closed', async () => {
+  // 0.005 minutes is 300 ms
+  const server = await startHttpServer({ MCP_SESSION_IDLE_MINUTES: '0.005', MCP_MAX_SESSIONS: '1' });
+  try {
+    const { client, transport } = await connect(server);
+    const sessionId = transport.sessionId;
+    assert.equal((await listTools(server, sessionId)).status, 200);
+
+    await sleep(1000);
+    assert.equal((await listTools(server, sessionId)).status, 404);
+
+    // The swept session no longer counts against the limit
+    const next = await connect(server);
+    await next.client.close();
+    await client.close();
+  } finally {
+    await server.stop();
+  }
+});
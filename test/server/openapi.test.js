@@ -0,0 +1,45 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Validator } from '@seriousme/openapi-schema-validator';
+import { HTTP_ROUTES, buildOpenApiDocument } from '../../dist/registry.js';
+import { startHttpServer } from './http-server.js';
+
+let server;
+
+before(async () => {
+  server = await startHttpServer();
+});
+
+after(async () => {
+  await server?.stop();
+});
+
+async function assertValidOpenApi31(document) {
+  const validator = new Validator();
+  const result = await validator.validate(document);
+  assert.equal(validator.version, '3.1');
+  assert.ok(result.valid, JSON.stringify(result.errors, null, 2));
+}
+
+test('/openapi.json is a valid OpenAPI 3.1 document listing every route', async () => {
+  const response = await fetch(`${server.baseUrl}/openapi.json`);
+  assert.equal(response.status, 200);
+  const document = await response.json();
+
+  await assertValidOpenApi31(document);
+
+  for (const route of HTTP_ROUTES) {
+    const operation = document.paths[route.path.replace(/:(\w+)/g, '{$1}')]?.[route.method];
+    assert.ok(operation, `${route.method.toUpperCase()} ${route.path}`);
+    assert.equal(operation.operationId, route.operationId);
+  }
+
+  const operations = Object.values(document.paths).flatMap(item => Object.keys(item));
+  assert.equal(operations.length, HTTP_ROUTES.length);
+});
+
+test('the document stays valid with API key security schemes', async () => {
+  const document = buildOpenApiDocument(undefined, ['/health', '/openapi.json']);
+  await assertValidOpenApi31(document);
+  assert.deepEqual(document.paths['/health'].get.security, []);
+});
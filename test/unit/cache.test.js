@@ -0,0 +1,115 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache, DEFAULT_TTL_RULES } from '../../dist/cache.js';
+import { RxNavServer } from '../../dist/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function createCache(options = {}) {
+  return new ResponseCache({
+    maxEntries: 100,
+    defaultTtlMs: HOUR,
+    staleWhileRevalidateMs: HOUR,
+    ttlRules: DEFAULT_TTL_RULES,
+    ...options
+  });
+}
+
+afterEach(() => mock.timers.reset());
+
+test('TTL rules match endpoints, falling back to the default TTL', () => {
+  const cache = createCache();
+  assert.equal(cache.ttlFor('/drugs.json?name=aspirin'), DAY);
+  assert.equal(cache.ttlFor('/rxcui/1191/property.json?propName=ATC'), 7 * DAY);
+  assert.equal(cache.ttlFor('/rxclass/class/byRxcui.json?rxcui=1191'), 7 * DAY);
+  assert.equal(cache.ttlFor('/approximateTerm.json?term=aspirin'), HOUR);
+});
+
+test('entries are fresh within the TTL, stale within the SWR window, then missing', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const cache = createCache();
+  await cache.set('/approximateTerm.json?term=a', { ok: true });
+
+  mock.timers.tick(HOUR);
+  assert.deepEqual(await cache.lookup('/approximateTerm.json?term=a'), { value: { ok: true }, state: 'fresh' });
+
+  mock.timers.tick(1);
+  assert.equal((await cache.lookup('/approximateTerm.json?term=a')).state, 'stale');
+
+  mock.timers.tick(HOUR - 1);
+  assert.equal((await cache.lookup('/approximateTerm.json?term=a')).state, 'stale');
+
+  mock.timers.tick(1);
+  assert.equal(await cache.lookup('/approximateTerm.json?term=a'), undefined);
+  assert.equal(cache.size, 0);
+});
+
+test('the least recently used entry is evicted first', async () => {
+  const cache = createCache({ maxEntries: 2 });
+  await cache.set('/a', 1);
+  await cache.set('/b', 2);
+  await cache.lookup('/a');
+  await cache.set('/c', 3);
+
+  assert.equal(cache.size, 2);
+  assert.equal(await cache.lookup('/b'), undefined);
+  assert.equal((await cache.lookup('/a')).value, 1);
+  assert.equal((await cache.lookup('/c')).value, 3);
+});
+
+test('the disk store survives a restart and leaves no temporary files', async () => {
+  const diskDir = await mkdtemp(join(tmpdir(), 'rxnav-cache-'));
+  try {
+    await createCache({ diskDir }).set('/drugs.json?name=aspirin', { drugGroup: { name: 'aspirin' } });
+
+    const files = await readdir(diskDir);
+    assert.equal(files.length, 1);
+    assert.match(files[0], /^[0-9a-f]{40}\.json$/);
+
+    const restarted = createCache({ diskDir });
+    const hit = await restarted.lookup('/drugs.json?name=aspirin');
+    assert.deepEqual(hit, { value: { drugGroup: { name: 'aspirin' } }, state: 'fresh' });
+
+    // A file whose stored key does not match the requested one is ignored
+    const path = join(diskDir, files[0]);
+    const entry = JSON.parse(await readFile(path, 'utf8'));
+    await writeFile(path, JSON.stringify({ ...entry, key: '/drugs.json?name=other' }));
+    assert.equal(await createCache({ diskDir }).lookup('/drugs.json?name=aspirin'), undefined);
+  } finally {
+    await rm(diskDir, { recursive: true, force: true });
+  }
+});
+
+test('warm_cache reports upstream failures that the tools tolerate', async () => {
+  // RxNav stub: name searches find nothing and the spelling fallback fails,
+  // which search_drug_by_name swallows and reports as "no match"
+  const upstream = createServer((req, res) => {
+    if (req.url.startsWith('/REST/spellingsuggestions.json')) {
+      res.writeHead(404).end('not found');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+  });
+  await new Promise(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+  process.env.RXNAV_BASE_URL = `http://127.0.0.1:${upstream.address().port}/REST`;
+  process.env.RXNAV_CACHE_DISABLED = 'true';
+  try {
+    const result = await new RxNavServer().callTool('warm_cache', { drug_names: ['zzzdrug'] });
+
+    assert.deepEqual(result.warmed, []);
+    assert.equal(result.failed.length, 1);
+    assert.equal(result.failed[0].drug_name, 'zzzdrug');
+    assert.match(result.failed[0].error, /^\/spellingsuggestions\.json\?name=zzzdrug: .*RxNav API error \(404\)/);
+    assert.equal(result.failed[0].error.split('spellingsuggestions').length, 2);
+  } finally {
+    delete process.env.RXNAV_BASE_URL;
+    delete process.env.RXNAV_CACHE_DISABLED;
+    upstream.close();
+  }
+});
@@ -0,0 +1,79 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { RxNavServer } from '../../dist/index.js';
+
+// Runs the tools on the local backend against the sample RRF release in
+// test/fixtures/rrf, both straight from the RRF files and from a snapshot
+// written by `npm run import:rrf`.
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../..');
+const rrfDir = join(root, 'test/fixtures/rrf');
+
+let workDir;
+let snapshotPath;
+
+before(async () => {
+  workDir = await mkdtemp(join(tmpdir(), 'rxnav-rrf-'));
+  snapshotPath = join(workDir, 'rxnorm-store.json');
+  // Same as `npm run import:rrf -- test/fixtures/rrf <output>`
+  await promisify(execFile)('node', [join(root, 'dist/import-rrf.js'), rrfDir, snapshotPath]);
+});
+
+after(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+// The backend is chosen at construction, the store is loaded on first use
+async function withLocalServer(path, fn) {
+  process.env.RXNAV_BACKEND = 'local';
+  process.env.RXNAV_RRF_PATH = path;
+  try {
+    await fn(new RxNavServer());
+  } finally {
+    delete process.env.RXNAV_BACKEND;
+    delete process.env.RXNAV_RRF_PATH;
+  }
+}
+
+test('import:rrf writes a snapshot of every fixture concept', async () => {
+  const snapshot = JSON.parse(await readFile(snapshotPath, 'utf8'));
+  const rxcuis = new Set(
+    (await readFile(join(rrfDir, 'RXNCONSO.RRF'), 'utf8'))
+      .split('\n')
+      .filter(Boolean)
+      .map(line => line.split('|')[0])
+  );
+
+  assert.equal(snapshot.concepts.length, rxcuis.size);
+  assert.equal(snapshot.concepts.find(c => c.rxcui === '1191').name, 'aspirin');
+});
+
+for (const source of ['RRF directory', 'snapshot']) {
+  test(`local backend answers tool calls from the ${source}`, async () => {
+    await withLocalServer(source === 'snapshot' ? snapshotPath : rrfDir, async server => {
+      const search = await server.callTool('search_drug_by_name', { drug_name: 'aspirin' });
+      assert.deepEqual(search.results.map(r => r.rxcui), ['243670']);
+
+      const brands = await server.callTool('get_brand_names', { generic_name: 'ibuprofen' });
+      assert.equal(brands.generic_rxcui, '5640');
+      assert.ok(brands.brand_names.some(b => b.rxcui === '153010' && b.name === 'Advil'));
+
+      const ingredients = await server.callTool('get_drug_ingredients', { drug_identifier: 'Tylenol' });
+      assert.equal(ingredients.rxcui, '202433');
+      assert.ok(ingredients.ingredients.some(i => i.rxcui === '161'));
+
+      const status = await server.callTool('get_rxcui_status', { rxcui: '161' });
+      assert.equal(status.status, 'active');
+      assert.equal(status.name, 'acetaminophen');
+
+      const ndc = await server.callTool('ndc_to_rxcui', { ndc: '00573-0150-20' });
+      assert.equal(ndc.rxcui, '731533');
+    });
+  });
+}
@@ -0,0 +1,46 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { RxNavServer } from '../../dist/index.js';
+
+// ae_pipeline_rag's deadline_ms covers resolving the drug as well as the
+// sources, so a slow RxNav cannot hold the call past its budget.
+
+const UPSTREAM_DELAY_MS = 2500;
+
+let upstream;
+let server;
+
+before(async () => {
+  // RxNav stub that answers every request with nothing, slowly
+  upstream = createServer((req, res) => {
+    setTimeout(() => res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}'), UPSTREAM_DELAY_MS);
+  });
+  await new Promise(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+  process.env.RXNAV_BASE_URL = `http://127.0.0.1:${upstream.address().port}/REST`;
+  process.env.RXNAV_CACHE_DISABLED = 'true';
+  server = new RxNavServer();
+});
+
+after(async () => {
+  delete process.env.RXNAV_BASE_URL;
+  delete process.env.RXNAV_CACHE_DISABLED;
+  // Drops the requests the pipeline gave up on
+  upstream.closeAllConnections();
+  await new Promise(resolve => upstream.close(resolve));
+});
+
+test('a deadline used up while resolving the drug returns a partial result', async () => {
+  const startedAt = Date.now();
+  const result = await server.callTool('ae_pipeline_rag', { drug: 'aspirin', deadline_ms: 1000, language: 'en' });
+  const elapsed = Date.now() - startedAt;
+
+  assert.ok(elapsed < UPSTREAM_DELAY_MS, `returned after ${elapsed} ms`);
+  assert.equal(result.partial, true);
+  assert.equal(result.rxcui, null);
+  assert.deepEqual(result.top_chunks, []);
+  assert.ok(result.sources.length > 0);
+  assert.ok(result.sources.every(source => source.status === 'skipped'), JSON.stringify(result.sources));
+  assert.match(result.summary, /within the time budget/);
+});
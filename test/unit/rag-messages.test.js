@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATALOGS, message } from '../../dist/rag-messages.js';
+
+// The zh and en message catalogs must stay in step: same keys, same
+// arguments, and every argument shows up in both texts.
+
+const { zh, en } = CATALOGS;
+
+test('zh and en have the same message keys', () => {
+  assert.deepEqual(Object.keys(en).sort(), Object.keys(zh).sort());
+});
+
+test('each message takes the same arguments in both languages', () => {
+  for (const key of Object.keys(zh)) {
+    assert.equal(en[key].length, zh[key].length, key);
+
+    const args = Array.from({ length: zh[key].length }, (_, i) => `ARG${i}`);
+    for (const [language, catalog] of Object.entries(CATALOGS)) {
+      const text = catalog[key](...args);
+      assert.ok(text.trim().length > 0, `${language}.${key} is empty`);
+      for (const arg of args) {
+        assert.ok(text.includes(arg), `${language}.${key} drops ${arg}`);
+      }
+    }
+  }
+});
+
+test('bilingual messages join the Chinese and English texts', () => {
+  assert.equal(message('bilingual', 'rxcuiCount', 2), `${zh.rxcuiCount(2)} / ${en.rxcuiCount(2)}`);
+  assert.equal(message('en', 'drugNotFound', 'x'), en.drugNotFound('x'));
+});
@@ -0,0 +1,51 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { RxNavServer } from '../../dist/index.js';
+
+// ae_pipeline_rag end to end on the local backend: per-source timings, and
+// sources that succeed without any records do not count as data.
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+let server;
+
+before(() => {
+  process.env.RXNAV_BACKEND = 'local';
+  process.env.RXNAV_RRF_PATH = join(root, 'test/fixtures/rrf');
+  process.env.RXNAV_CACHE_DISABLED = 'true';
+  server = new RxNavServer();
+});
+
+after(() => {
+  delete process.env.RXNAV_BACKEND;
+  delete process.env.RXNAV_RRF_PATH;
+  delete process.env.RXNAV_CACHE_DISABLED;
+});
+
+test('each source reports its timing and the top chunks cite their records', async () => {
+  const result = await server.callTool('ae_pipeline_rag', { drug: 'aspirin', top_k: 3, language: 'en' });
+
+  assert.equal(result.rxcui, '1191');
+  assert.equal(result.partial, false);
+  assert.deepEqual(result.sources.map(source => [source.type, source.status]), [
+    ['search', 'ok'],
+    ['generic', 'ok'],
+    ['brand', 'ok'],
+    ['atc', 'ok'],
+    ['ingredients', 'ok']
+  ]);
+  assert.equal(result.top_chunks.length, 3);
+  assert.ok(result.citations.some(citation => citation.id === 'N02BA01' && citation.type === 'atc'));
+});
+
+test('an unknown drug is reported as not found even though every source answered', async () => {
+  const result = await server.callTool('ae_pipeline_rag', { drug: 'zzzzunknown', language: 'en' });
+
+  assert.equal(result.rxcui, null);
+  assert.equal(result.partial, false);
+  assert.ok(result.sources.every(source => source.status === 'ok'));
+  assert.deepEqual(result.top_chunks, []);
+  assert.match(result.summary, /No information found for drug "zzzzunknown"/);
+});
@@ -0,0 +1,192 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  tokenize,
+  buildBM25Index,
+  scoreBM25,
+  rankAndPickTop,
+  selectDiverse,
+  chunkText,
+  chunkRecords,
+  mergeOverlappingChunks,
+  extractCitations,
+  selectSummarySentences,
+  summarizeChunks
+} from '../../dist/rag-utils.js';
+
+// Retrieval helpers of the RAG pipeline, on hand-written chunks
+
+function chunk(id, text, source = id, metadata = {}) {
+  return { id, text, source, metadata };
+}
+
+const DRUG_CHUNKS = [
+  chunk('search', 'Concept: aspirin (acetylsalicylic acid), RxCUI: 1191', 'search', { type: 'search' }),
+  chunk('atc', 'ATC Code: N02BA01, Description: acetylsalicylic acid', 'atc', { type: 'atc' }),
+  chunk('brand', 'Brand Name: Bayer, RxCUI: 215568', 'brand', { type: 'brand' })
+];
+
+test('tokenize lowercases English words and drops stopwords', () => {
+  assert.deepEqual(tokenize('What are the side effects of Aspirin?'), ['side', 'effects', 'aspirin']);
+  assert.deepEqual(tokenize('ATC 分类 N02BA01'), ['atc', '分类', 'n02ba01']);
+});
+
+test('tokenize splits Chinese into bigrams and breaks runs at stopwords', () => {
+  assert.deepEqual(tokenize('阿司匹林的不良反应'), ['阿司', '司匹', '匹林', '不良', '良反', '反应']);
+  // Single characters left between stopwords are kept as they are
+  assert.deepEqual(tokenize('药和酒'), ['药', '酒']);
+});
+
+test('BM25 scores chunks by the query terms they contain', () => {
+  const scores = scoreBM25(buildBM25Index(DRUG_CHUNKS), 'aspirin ATC');
+  assert.ok(scores[0] > 0 && scores[1] > 0);
+  assert.equal(scores[2], 0);
+
+  // A term found in fewer chunks weighs more
+  const [rare] = scoreBM25(buildBM25Index(DRUG_CHUNKS), 'aspirin');
+  const [common] = scoreBM25(buildBM25Index(DRUG_CHUNKS), 'rxcui');
+  assert.ok(rare > common);
+});
+
+test('BM25 multiplies scores by metadata boosts', () => {
+  const plain = scoreBM25(buildBM25Index(DRUG_CHUNKS), 'acetylsalicylic');
+  const boosted = scoreBM25(buildBM25Index(DRUG_CHUNKS, { boosts: { type: { atc: 2 } } }), 'acetylsalicylic');
+  assert.equal(boosted[0], plain[0]);
+  assert.equal(boosted[1], plain[1] * 2);
+});
+
+test('queries with regular expression metacharacters are matched literally', () => {
+  const query = 'aspirin (acetylsalicylic) + ATC';
+
+  // Punctuation is not a term, so "(" and "+" alone match nothing
+  assert.deepEqual(scoreBM25(buildBM25Index(DRUG_CHUNKS), '( +'), [0, 0, 0]);
+
+  for (const method of ['bm25', 'legacy']) {
+    const top = rankAndPickTop(DRUG_CHUNKS, query, 2, ['c++'], { method });
+    assert.deepEqual(top.map(c => c.id).sort(), ['atc', 'search'], method);
+    assert.ok(top.every(c => Number.isFinite(c.score)), method);
+  }
+});
+
+const SCORED_CHUNKS = [
+  { ...chunk('tablet', 'aspirin 81 MG Oral Tablet', 'search'), score: 10 },
+  { ...chunk('chewable', 'aspirin 81 MG Oral Tablet Chewable', 'search'), score: 9.5 },
+  { ...chunk('atc', 'ATC Code: N02BA01, Description: acetylsalicylic acid', 'atc'), score: 7 }
+];
+
+test('selectDiverse skips near duplicates of chunks already selected', () => {
+  // Relevance alone picks both tablets
+  assert.deepEqual(selectDiverse(SCORED_CHUNKS, 2, 1).map(c => c.id), ['tablet', 'chewable']);
+  // With MMR the chewable tablet loses to the less relevant but new ATC chunk
+  assert.deepEqual(selectDiverse(SCORED_CHUNKS, 2, 0.7).map(c => c.id), ['tablet', 'atc']);
+});
+
+test('selectDiverse takes at most maxPerSource chunks from one source', () => {
+  assert.deepEqual(selectDiverse(SCORED_CHUNKS, 2, 1, 1).map(c => c.id), ['tablet', 'atc']);
+  // Fewer than topK when the cap leaves nothing else
+  assert.deepEqual(selectDiverse(SCORED_CHUNKS, 3, 1, 1).map(c => c.id), ['tablet', 'atc']);
+});
+
+test('overlapping chunks of one source are merged into a contiguous span', () => {
+  const text = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} talks about aspirin dosing.`).join(' ');
+  const chunks = chunkText(text, 120, 40, 'label').map((c, i) => ({ ...c, score: 10 - i }));
+  assert.ok(chunks[1].metadata.start < chunks[0].metadata.end);
+  const record = { ...chunkRecords([{ text: 'Concept: aspirin', metadata: { record: 'concept', rxcui: '1191' } }], 'search')[0], score: 8 };
+
+  const merged = mergeOverlappingChunks([chunks[3], chunks[0], record, chunks[1]]);
+
+  assert.deepEqual(merged.map(c => c.id), ['label_chunk_0', 'search_record_0', 'label_chunk_3']);
+  assert.equal(merged[0].text, text.slice(0, chunks[1].metadata.end).trim());
+  assert.equal(merged[0].score, 10);
+  assert.deepEqual(merged[0].metadata.mergedFrom, ['label_chunk_0', 'label_chunk_1']);
+  // Chunks that do not touch, and record chunks without offsets, are kept as they are
+  assert.equal(merged[1], record);
+  assert.equal(merged[2], chunks[3]);
+});
+
+test('chunkRecords makes one chunk per non-empty record with its typed metadata', () => {
+  const chunks = chunkRecords([
+    { text: '  Ingredient: aspirin, RxCUI: 1191, Type: IN\nStrength: 81 MG  ', metadata: { record: 'ingredient', rxcui: '1191', name: 'aspirin', strength: '81 MG' } },
+    { text: '   ', metadata: { record: 'concept', rxcui: '0' } },
+    { text: 'ATC Code: N02BA01', metadata: { record: 'atc', atc_code: 'N02BA01', atc_level: 5 } }
+  ], 'ingredients_1', { type: 'ingredients', drugName: 'aspirin' });
+
+  assert.deepEqual(chunks, [
+    {
+      id: 'ingredients_1_record_0',
+      text: 'Ingredient: aspirin, RxCUI: 1191, Type: IN\nStrength: 81 MG',
+      source: 'ingredients_1',
+      metadata: { type: 'ingredients', drugName: 'aspirin', record: 'ingredient', rxcui: '1191', name: 'aspirin', strength: '81 MG', recordIndex: 0 }
+    },
+    {
+      id: 'ingredients_1_record_1',
+      text: 'ATC Code: N02BA01',
+      source: 'ingredients_1',
+      metadata: { type: 'ingredients', drugName: 'aspirin', record: 'atc', atc_code: 'N02BA01', atc_level: 5, recordIndex: 1 }
+    }
+  ]);
+});
+
+test('extractCitations cites records by ATC code or RxCUI, once each', () => {
+  const records = chunkRecords([
+    { text: 'ATC Code: N02BA01', metadata: { record: 'atc', rxcui: '1191', name: 'acetylsalicylic acid', atc_code: 'N02BA01' } },
+    { text: 'Generic Name: aspirin', metadata: { record: 'concept', rxcui: '1191', name: 'aspirin' } },
+    { text: 'Concept: aspirin, RxCUI: 1191', metadata: { record: 'concept', rxcui: '1191', name: 'aspirin' } },
+    // Record text is not scanned for trial ids
+    { text: 'Brand Name: NCT0000 tablets', metadata: { record: 'concept', rxcui: '215568' } }
+  ], 'rxnav');
+  const trial = chunk('trials_0', 'See NCT01234567 and NCT07654321.', 'trials_0', { type: 'clinical_trial', title: 'Trials' });
+
+  assert.deepEqual(extractCitations([...records, trial]), [
+    { id: 'N02BA01', type: 'atc', title: 'acetylsalicylic acid' },
+    { id: '1191', type: 'rxnorm', title: 'aspirin' },
+    { id: '215568', type: 'rxnorm' },
+    { id: 'NCT01234567', type: 'clinical_trial' },
+    { id: 'NCT07654321', type: 'clinical_trial' },
+    { id: 'trials_0', type: 'clinical_trial', title: 'Trials' }
+  ]);
+});
+
+const TRIAL_CHUNKS = [
+  chunk('trial_0', 'NCT01234567 reported nausea in 12% of patients. Headache was rare. Dizziness occurred in 3% of patients.'),
+  chunk('trial_1', 'NCT07654321 found no serious bleeding events. Nausea resolved within a week.')
+];
+
+test('selectSummarySentences puts query matches first and stays within the budget', () => {
+  const sentences = selectSummarySentences(TRIAL_CHUNKS, 'nausea', 120);
+
+  assert.deepEqual(sentences.map(s => [s.text, s.chunkIndex]), [
+    ['NCT01234567 reported nausea in 12% of patients.', 0],
+    ['Nausea resolved within a week.', 1],
+    ['Headache was rare.', 0]
+  ]);
+  // Each sentence takes its "- text [n]" line plus a newline
+  const used = sentences.reduce((sum, s) => sum + `- ${s.text} [${s.chunkIndex + 1}]`.length + 1, 0);
+  assert.ok(used <= 120, `${used} characters`);
+});
+
+test('summary sentences are whole and cite their chunk', () => {
+  const maxLength = 370;
+  const summary = summarizeChunks(TRIAL_CHUNKS, { source: 'clinicaltrials', drug: 'aspirin', query: 'nausea', maxLength, language: 'en' });
+  const cited = summary.split('\n').filter(line => /\[\d+\]$/.test(line));
+
+  assert.ok(summary.length <= maxLength, `${summary.length} characters`);
+  assert.deepEqual(cited, [
+    '- NCT01234567 reported nausea in 12% of patients. [1]',
+    '- Nausea resolved within a week. [2]'
+  ]);
+  assert.match(summary, /### Recommendation\n/);
+});
+
+test('a summary whose headings exceed maxLength drops whole lines from the end', () => {
+  const full = summarizeChunks(TRIAL_CHUNKS, { source: 'clinicaltrials', drug: 'aspirin', query: 'nausea', language: 'en' });
+
+  for (const maxLength of [150, 120, 60]) {
+    const summary = summarizeChunks(TRIAL_CHUNKS, { source: 'clinicaltrials', drug: 'aspirin', query: 'nausea', maxLength, language: 'en' });
+    assert.ok(summary.length <= maxLength, `${summary.length} > ${maxLength}`);
+    assert.ok(summary.length > 0);
+    // A prefix of the full summary made of complete lines, with no cut-off ellipsis
+    assert.ok(full.startsWith(summary + '\n'), JSON.stringify(summary));
+    assert.doesNotMatch(summary, /\.\.\.$/);
+  }
+});
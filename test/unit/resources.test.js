@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { setTimeout as sleep } from 'timers/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { RxNavServer } from '../../dist/index.js';
+
+// MCP resources through the SDK client: listing and reading on the local
+// backend, and update notifications for subscribed URIs.
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+async function withEnv(env, fn) {
+  Object.assign(process.env, env);
+  try {
+    return await fn();
+  } finally {
+    for (const name of Object.keys(env)) delete process.env[name];
+  }
+}
+
+async function connect(rxnav) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = rxnav.createMcpServer();
+  const client = new Client({ name: 'resources-test', version: '0.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { client, server };
+}
+
+const LOCAL_ENV = {
+  RXNAV_BACKEND: 'local',
+  RXNAV_RRF_PATH: join(root, 'test/fixtures/rrf'),
+  RXNAV_CACHE_DISABLED: 'true'
+};
+
+test('the ATC main groups are listed, with templates for concepts and classes', async () => {
+  await withEnv(LOCAL_ENV, async () => {
+    const { client } = await connect(new RxNavServer());
+
+    const { resources } = await client.listResources();
+    assert.equal(resources.length, 14);
+    assert.deepEqual(resources[0], {
+      uri: 'atc://A',
+      name: 'atc-A',
+      title: 'A ALIMENTARY TRACT AND METABOLISM',
+      description: 'ATC anatomical main group A',
+      mimeType: 'text/markdown'
+    });
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(
+      resourceTemplates.map(t => t.uriTemplate),
+      ['rxnorm://concept/{rxcui}', 'rxnorm://concept/{rxcui}/related', 'atc://{code}']
+    );
+
+    await client.close();
+  });
+});
+
+test('reading a resource returns a Markdown card and its JSON', async () => {
+  await withEnv(LOCAL_ENV, async () => {
+    const { client } = await connect(new RxNavServer());
+
+    const { contents } = await client.readResource({ uri: 'rxnorm://concept/1191' });
+    assert.deepEqual(contents.map(c => c.mimeType), ['text/markdown', 'application/json']);
+    assert.ok(contents.every(c => c.uri === 'rxnorm://concept/1191'));
+    assert.match(contents[0].text, /aspirin/);
+    const concept = JSON.parse(contents[1].text);
+    assert.equal(concept.rxcui, '1191');
+    assert.equal(concept.status, 'active');
+
+    const atc = JSON.parse((await client.readResource({ uri: 'atc://c09' })).contents[1].text);
+    assert.equal(atc.atc_class.code, 'C09');
+
+    // A retired RxCUI lists the relationships of the concept it was remapped to
+    const related = await client.readResource({ uri: 'rxnorm://concept/1000001/related' });
+    const groups = JSON.parse(related.contents[1].text);
+    assert.equal(groups.rxcui, '161');
+    assert.equal(groups.rxcui_remap.original_rxcui, '1000001');
+    assert.ok(groups.total_found > 0);
+    assert.match(related.contents[0].text, /RxCUI 1000001 is remapped/);
+
+    await assert.rejects(client.readResource({ uri: 'rxnorm://concept/999999999' }), error => error.code === -32002);
+    await assert.rejects(client.readResource({ uri: 'https://example.com/' }), error => error.code === -32602);
+
+    await client.close();
+  });
+});
+
+test('subscribers are notified when a polled resource changes', async () => {
+  // RxNav stub whose status for RxCUI 1191 can be changed between polls
+  let status = 'Active';
+  const upstream = createServer((req, res) => {
+    const body = req.url.startsWith('/REST/rxcui/1191/historystatus.json')
+      ? { rxcuiStatusHistory: { metaData: { status, isCurrent: 'YES' }, attributes: { name: 'aspirin', tty: 'IN' } } }
+      : {};
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  await new Promise(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+  try {
+    await withEnv({
+      RXNAV_BASE_URL: `http://127.0.0.1:${upstream.address().port}/REST`,
+      RXNAV_CACHE_DISABLED: 'true',
+      // 0.001 minutes is 60 ms
+      RXNAV_RESOURCE_POLL_MINUTES: '0.001'
+    }, async () => {
+      const { client } = await connect(new RxNavServer());
+      const updates = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+        updates.push(notification.params.uri);
+      });
+
+      await client.subscribeResource({ uri: 'rxnorm://concept/1191' });
+
+      // Unchanged resources are polled without notifying
+      await sleep(300);
+      assert.deepEqual(updates, []);
+
+      status = 'Obsolete';
+      await sleep(300);
+      assert.deepEqual(updates, ['rxnorm://concept/1191']);
+      const { contents } = await client.readResource({ uri: 'rxnorm://concept/1191' });
+      assert.equal(JSON.parse(contents[1].text).status, 'obsolete');
+
+      // No further notifications after unsubscribing
+      await client.unsubscribeResource({ uri: 'rxnorm://concept/1191' });
+      status = 'Active';
+      await sleep(300);
+      assert.deepEqual(updates, ['rxnorm://concept/1191']);
+
+      await client.close();
+    });
+  } finally {
+    upstream.close();
+  }
+});
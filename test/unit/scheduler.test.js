@@ -0,0 +1,140 @@
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { UpstreamScheduler } from '../../dist/scheduler.js';
+
+// Token buckets run on Date.now and setTimeout, both faked here so waits
+// are exact and the tests never sleep.
+
+beforeEach(() => mock.timers.enable({ apis: ['Date', 'setTimeout'], now: 0 }));
+afterEach(() => mock.timers.reset());
+
+// Lets resolved acquire() promises run their continuations
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Queues one acquire per label and records when each one was granted
+function acquireAll(scheduler, url, labels, grants, caller) {
+  for (const label of labels) {
+    const acquire = () => scheduler.acquire(url).then(() => grants.push({ label, at: Date.now() }));
+    if (caller) {
+      scheduler.runAs(caller, acquire);
+    } else {
+      acquire();
+    }
+  }
+}
+
+async function advance(ms, steps) {
+  for (let i = 0; i < steps; i++) {
+    mock.timers.tick(ms);
+    await flush();
+  }
+}
+
+test('a host gets its burst at once, then requests at the sustained rate', async () => {
+  const scheduler = new UpstreamScheduler({ 'example.test': { requestsPerSecond: 2, burst: 2 } });
+  const grants = [];
+  acquireAll(scheduler, 'https://example.test/a', [1, 2, 3, 4, 5, 6], grants);
+  await flush();
+
+  assert.deepEqual(scheduler.stats(), [{ host: 'example.test', queued: 4, callers: 1 }]);
+
+  await advance(500, 4);
+  assert.deepEqual(grants.map(g => g.at), [0, 0, 500, 1000, 1500, 2000]);
+  assert.deepEqual(scheduler.stats(), [{ host: 'example.test', queued: 0, callers: 0 }]);
+});
+
+test('tokens refill while a host is idle, up to the burst', async () => {
+  const scheduler = new UpstreamScheduler({ 'example.test': { requestsPerSecond: 1, burst: 3 } });
+  const grants = [];
+  acquireAll(scheduler, 'https://example.test/a', [1, 2, 3], grants);
+  await flush();
+  assert.equal(grants.length, 3);
+
+  // Ten idle seconds refill three tokens, not ten
+  mock.timers.tick(10000);
+  acquireAll(scheduler, 'https://example.test/a', [4, 5, 6, 7], grants);
+  await flush();
+  assert.equal(grants.length, 6);
+
+  await advance(1000, 1);
+  assert.deepEqual(grants.map(g => g.at), [0, 0, 0, 10000, 10000, 10000, 11000]);
+});
+
+test('hosts without a limit are not queued', async () => {
+  const scheduler = new UpstreamScheduler({ 'example.test': { requestsPerSecond: 1, burst: 1 } });
+  const grants = [];
+  acquireAll(scheduler, 'https://other.test/a', [1, 2, 3, 4, 5], grants);
+  await flush();
+  assert.equal(grants.length, 5);
+  assert.deepEqual(scheduler.stats(), []);
+});
+
+test('waiting callers are served round robin', async () => {
+  const scheduler = new UpstreamScheduler({ 'example.test': { requestsPerSecond: 1, burst: 1 } });
+  const grants = [];
+  acquireAll(scheduler, 'https://example.test/a', ['a1', 'a2', 'a3', 'a4'], grants, 'key-a');
+  acquireAll(scheduler, 'https://example.test/b', ['b1', 'b2'], grants, 'key-b');
+  await flush();
+
+  assert.deepEqual(scheduler.stats(), [{ host: 'example.test', queued: 5, callers: 2 }]);
+
+  await advance(1000, 5);
+  // a1 took the only token; afterwards the callers alternate
+  assert.deepEqual(grants.map(g => g.label), ['a1', 'a2', 'b1', 'a3', 'b2', 'a4']);
+  assert.deepEqual(grants.map(g => g.at), [0, 1000, 2000, 3000, 4000, 5000]);
+});
+
+test('concurrent requests for the same key share one fetch', async () => {
+  const scheduler = new UpstreamScheduler({});
+  let fetches = 0;
+  let release;
+  const fetch = () => {
+    fetches++;
+    return new Promise(resolve => { release = resolve; });
+  };
+
+  const first = scheduler.coalesce('https://example.test/a', fetch);
+  const second = scheduler.coalesce('https://example.test/a', fetch);
+  const other = scheduler.coalesce('https://example.test/b', () => Promise.resolve('b'));
+  assert.equal(first, second);
+  assert.equal(fetches, 1);
+
+  release('a');
+  assert.equal(await first, 'a');
+  assert.equal(await second, 'a');
+  assert.equal(await other, 'b');
+
+  // Once settled, the next request fetches again, and failures are not kept either
+  await assert.rejects(scheduler.coalesce('https://example.test/a', () => Promise.reject(new Error('down'))), /down/);
+  assert.equal(await scheduler.coalesce('https://example.test/a', () => Promise.resolve('again')), 'again');
+});
+
+test('UPSTREAM_RATE_LIMITS overrides the default host limits', async () => {
+  const scheduler = UpstreamScheduler.fromEnv({
+    UPSTREAM_RATE_LIMITS: 'example.test=2/1, rxnav.nlm.nih.gov=0,not an entry,burst.test=3'
+  });
+  const grants = [];
+
+  // rate/burst
+  acquireAll(scheduler, 'https://example.test/a', [1, 2, 3], grants);
+  // 0 disables limiting
+  acquireAll(scheduler, 'https://rxnav.nlm.nih.gov/REST/drugs.json', Array.from({ length: 30 }, (_, i) => i), grants);
+  // rate alone: the burst defaults to the rate
+  acquireAll(scheduler, 'https://burst.test/a', [1, 2, 3, 4], grants);
+  // hosts not listed keep their defaults: 4 per second for OpenFDA
+  acquireAll(scheduler, 'https://api.fda.gov/drug/label.json', [1, 2, 3, 4, 5], grants);
+  await flush();
+
+  assert.deepEqual(scheduler.stats().map(s => [s.host, s.queued]), [
+    ['example.test', 2],
+    ['burst.test', 1],
+    ['api.fda.gov', 1]
+  ]);
+
+  await advance(250, 4);
+  assert.deepEqual(scheduler.stats().map(s => [s.host, s.queued]), [
+    ['example.test', 0],
+    ['burst.test', 0],
+    ['api.fda.gov', 0]
+  ]);
+});